@@ -6,7 +6,7 @@
  * - Analyzing trends over time
  */
 
-import { OpenElectricityClient } from "../src"
+import { emissionIntensity, OpenElectricityClient } from "../src"
 
 async function main() {
   // Initialize client
@@ -31,13 +31,13 @@ async function main() {
     }
 
     // Calculate emission factors for each region and day
-    const rows = datatable.getRows()
+    const rows = datatable.withColumn("emission_factor", emissionIntensity()).getRows()
     const emissionFactors = rows.map((row) => ({
       interval: row.interval,
       network_region: row.network_region,
       energy: row.energy as number,
       emissions: row.emissions as number,
-      emission_factor: ((row.emissions as number) / (row.energy as number)).toFixed(3),
+      emission_factor: ((row.emission_factor as number) ?? 0).toFixed(3),
     }))
 
     // Display daily emission factors by region
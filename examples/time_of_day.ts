@@ -2,12 +2,13 @@
  * Example showing generation patterns by time of day
  * This example demonstrates:
  * - Fetching hourly power data
+ * - Resampling to hourly data in network time
  * - Analyzing generation patterns by hour
  * - Calculating percentage contribution by fuel technology group
  */
 
 import { OpenElectricityClient } from "../src/client"
-import { DataTable } from "../src/datatable"
+import { getNetworkTimezone } from "../src/datetime"
 
 async function main(): Promise<void> {
   // Initialize client
@@ -37,18 +38,13 @@ async function main(): Promise<void> {
       throw new Error("No data returned")
     }
 
-    // Add hour of day column to each row
-    const withHourOfDay = datatable.getRows().map((row) => ({
-      ...row,
-      hour: row.interval.getHours(),
-    }))
-
-    // Create new DataTable with hour column
-    const hourlyTable = new DataTable(
-      withHourOfDay,
-      [...datatable.getGroupings(), "hour"],
-      datatable.getMetrics(),
-    )
+    // Roll up to hourly means, then add the hour of day in network time
+    const offset = getNetworkTimezone("NEM")
+    const hourlyTable = datatable
+      .resample("1h")
+      .withColumn("hour", (row) => (row.interval.getUTCHours() + offset) % 24, {
+        grouping: true,
+      })
 
     // Group by fuel technology group and hour, calculate mean power
     const byFueltechAndHour = hourlyTable
@@ -0,0 +1,167 @@
+/**
+ * Generate TypeScript types from the OpenAPI spec
+ *
+ * Reads docs/openapi.json and writes src/openapi.ts with a union type for each
+ * enum schema, an interface for each object schema and a Paths interface
+ * describing the parameters and response of every operation.
+ *
+ * Usage: bun run scripts/generate_types.ts
+ */
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { fileURLToPath } from "node:url"
+
+export const SPEC_PATH = "docs/openapi.json"
+export const OUTPUT_PATH = "src/openapi.ts"
+
+const LINE_WIDTH = 80
+
+export interface ISchema {
+  $ref?: string
+  type?: string
+  enum?: string[]
+  anyOf?: ISchema[]
+  items?: ISchema
+  properties?: Record<string, ISchema>
+  required?: string[]
+}
+
+interface IParameter {
+  name: string
+  in: "path" | "query" | "header" | "cookie"
+  required?: boolean
+  schema: ISchema
+}
+
+interface IOperation {
+  parameters?: IParameter[]
+  responses: Record<
+    string,
+    { content?: Record<string, { schema: ISchema }> } | undefined
+  >
+}
+
+export interface IOpenAPISpec {
+  info?: { version?: string }
+  paths: Record<string, Record<string, IOperation>>
+  components: { schemas: Record<string, ISchema> }
+}
+
+function refName(ref: string): string {
+  return ref.split("/").pop() as string
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+/**
+ * Convert a schema to a TypeScript type expression
+ */
+export function schemaToType(schema: ISchema): string {
+  if (schema.$ref) return refName(schema.$ref)
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ")
+  if (schema.anyOf) {
+    return [...new Set(schema.anyOf.map(schemaToType))].join(" | ")
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string"
+    case "integer":
+    case "number":
+      return "number"
+    case "boolean":
+      return "boolean"
+    case "null":
+      return "null"
+    case "array": {
+      const item = schemaToType(schema.items ?? {})
+      return item.includes(" | ") ? `(${item})[]` : `${item}[]`
+    }
+    case "object":
+      return schema.properties
+        ? objectType(schema, "")
+        : "Record<string, unknown>"
+    default:
+      return "unknown"
+  }
+}
+
+function objectType(schema: ISchema, indent: string): string {
+  const required = new Set(schema.required ?? [])
+  const lines = Object.entries(schema.properties ?? {}).map(
+    ([name, property]) =>
+      `${indent}  ${propertyKey(name)}${required.has(name) ? "" : "?"}: ${schemaToType(property)}`,
+  )
+  return `{\n${lines.join("\n")}\n${indent}}`
+}
+
+function unionDeclaration(name: string, values: string[]): string {
+  const quoted = values.map((v) => JSON.stringify(v))
+  const single = `export type ${name} = ${quoted.join(" | ")}`
+  if (single.length <= LINE_WIDTH) return single
+  return `export type ${name} =\n${quoted.map((v) => `  | ${v}`).join("\n")}`
+}
+
+function operationType(operation: IOperation): string {
+  const parameters = operation.parameters ?? []
+  const sections: string[] = []
+
+  for (const location of ["path", "query"] as const) {
+    const params = parameters.filter((p) => p.in === location)
+    if (params.length === 0) continue
+    const lines = params.map(
+      (p) =>
+        `      ${propertyKey(p.name)}${p.required ? "" : "?"}: ${schemaToType(p.schema)}`,
+    )
+    sections.push(`    ${location}: {\n${lines.join("\n")}\n    }`)
+  }
+
+  const schema =
+    operation.responses["200"]?.content?.["application/json"]?.schema
+  sections.push(`    response: ${schema ? schemaToType(schema) : "unknown"}`)
+
+  return `{\n${sections.join("\n")}\n  }`
+}
+
+/**
+ * Generate the source of src/openapi.ts from an OpenAPI spec
+ */
+export function generateTypes(spec: IOpenAPISpec): string {
+  const declarations: string[] = []
+
+  for (const [name, schema] of Object.entries(spec.components.schemas)) {
+    if (schema.enum) {
+      declarations.push(unionDeclaration(name, schema.enum))
+    } else if (schema.properties) {
+      declarations.push(`export interface ${name} ${objectType(schema, "")}`)
+    } else {
+      declarations.push(`export type ${name} = ${schemaToType(schema)}`)
+    }
+  }
+
+  const paths = Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(
+      ([method, operation]) =>
+        `  ${JSON.stringify(`${method.toUpperCase()} ${path}`)}: ${operationType(operation)}`,
+    ),
+  )
+  declarations.push(`export interface Paths {\n${paths.join("\n")}\n}`)
+
+  const header = [
+    "/**",
+    ` * Types generated from ${SPEC_PATH}${spec.info?.version ? ` (API ${spec.info.version})` : ""}`,
+    " *",
+    " * Do not edit by hand, run `bun run generate:types` instead.",
+    " */",
+  ]
+
+  return `${[header.join("\n"), ...declarations].join("\n\n")}\n`
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const spec = JSON.parse(readFileSync(SPEC_PATH, "utf-8")) as IOpenAPISpec
+  writeFileSync(OUTPUT_PATH, generateTypes(spec))
+  console.log(`Wrote ${OUTPUT_PATH}`)
+}
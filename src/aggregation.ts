@@ -0,0 +1,162 @@
+/**
+ * Aggregation functions for DataTable
+ *
+ * Reduce a column over a group of rows, skipping null and NaN values.
+ */
+
+import type { IDataTableRow } from "./datatable"
+
+/**
+ * How to combine a column's values. Percentiles are between 0 and 100 and
+ * interpolate linearly between values. A weighted mean weights each value by
+ * another column of the same row.
+ */
+export type Aggregation =
+  | "sum"
+  | "mean"
+  | "min"
+  | "max"
+  | "median"
+  | "count"
+  | "first"
+  | "last"
+  | "std"
+  | { percentile: number }
+  | { weightedMean: string }
+
+const AGGREGATIONS = new Set<string>([
+  "sum",
+  "mean",
+  "min",
+  "max",
+  "median",
+  "count",
+  "first",
+  "last",
+  "std",
+])
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && !Number.isNaN(value)
+}
+
+/**
+ * Check whether a value is a single aggregation rather than a map of column
+ * names to aggregations
+ */
+export function isAggregation(value: unknown): value is Aggregation {
+  if (typeof value === "string") return AGGREGATIONS.has(value)
+  if (!value || typeof value !== "object") return false
+  const keys = Object.keys(value)
+  if (keys.length !== 1) return false
+  const option = (value as Record<string, unknown>)[keys[0]]
+  return (
+    (keys[0] === "percentile" && typeof option === "number") ||
+    (keys[0] === "weightedMean" && typeof option === "string")
+  )
+}
+
+/**
+ * Aggregate a column over rows, in row order for first and last
+ *
+ * @returns The aggregate, or null when the column has no values (count
+ * returns 0)
+ */
+export function aggregate(
+  rows: IDataTableRow[],
+  column: string,
+  aggregation: Aggregation,
+): number | null {
+  if (typeof aggregation === "object" && "weightedMean" in aggregation) {
+    return weightedMean(rows, column, aggregation.weightedMean)
+  }
+
+  const values = rows.map((row) => row[column]).filter(isNumber)
+  if (aggregation === "count") return values.length
+  if (values.length === 0) return null
+
+  if (typeof aggregation === "object") {
+    return percentile(values, aggregation.percentile)
+  }
+
+  switch (aggregation) {
+    case "sum":
+      return sum(values)
+    case "mean":
+      return sum(values) / values.length
+    case "min":
+      return values.reduce((a, b) => (b < a ? b : a))
+    case "max":
+      return values.reduce((a, b) => (b > a ? b : a))
+    case "median":
+      return percentile(values, 50)
+    case "first":
+      return values[0]
+    case "last":
+      return values[values.length - 1]
+    case "std": {
+      // Population standard deviation, as in DataTable.describe
+      const mean = sum(values) / values.length
+      return Math.sqrt(
+        sum(values.map((value) => (value - mean) ** 2)) / values.length,
+      )
+    }
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0)
+}
+
+function percentile(values: number[], p: number): number {
+  if (p < 0 || p > 100) {
+    throw new RangeError(`Percentile must be between 0 and 100, got ${p}`)
+  }
+  const sorted = [...values].sort((a, b) => a - b)
+  const position = ((sorted.length - 1) * p) / 100
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/**
+ * Mean weighted by another column, falling back to the plain mean when no
+ * row has a positive weight
+ */
+function weightedMean(
+  rows: IDataTableRow[],
+  column: string,
+  weightColumn: string,
+): number | null {
+  let total = 0
+  let totalWeight = 0
+  for (const row of rows) {
+    const value = row[column]
+    const weight = row[weightColumn]
+    if (isNumber(value) && isNumber(weight)) {
+      total += value * weight
+      totalWeight += weight
+    }
+  }
+  return totalWeight > 0 ? total / totalWeight : aggregate(rows, column, "mean")
+}
+
+/**
+ * Choose how to aggregate a metric over time from its unit: flows such as
+ * energy, emissions and market value are summed, while rates such as power
+ * and proportions are averaged. Price is weighted by demand when the table
+ * has it.
+ */
+export function getDefaultAggregation(
+  metric: string,
+  metrics: Map<string, string>,
+): Aggregation {
+  const unit = metrics.get(metric) ?? ""
+  if (metric === "price" && metrics.has("demand")) {
+    return { weightedMean: "demand" }
+  }
+  // Battery storage is a state of charge rather than a flow
+  if (metric === "storage_battery") return "mean"
+  if (unit === "MW" || unit === "%" || unit.includes("/")) return "mean"
+  return "sum"
+}
@@ -0,0 +1,174 @@
+/**
+ * Response caching for the OpenElectricity API client
+ *
+ * Responses are stored as serialised JSON keyed by the normalised request URL.
+ * Historical windows that have fully closed are cached indefinitely, while
+ * windows that touch the present get a short TTL based on the data interval.
+ */
+
+import { getNetworkTimezoneOffset } from "./datetime"
+import type { DataInterval, NetworkCode } from "./types"
+
+export interface ICacheStore {
+  /** Get a cached value, or undefined if it is missing or expired */
+  get(key: string): Promise<string | undefined>
+  /** Store a value, optionally expiring after ttlMs milliseconds */
+  set(key: string, value: string, ttlMs?: number): Promise<void>
+  /** Remove a cached value */
+  delete(key: string): Promise<void>
+}
+
+export interface ICacheEntry {
+  value: string
+  expiresAt?: number
+}
+
+export function isExpired(
+  entry: ICacheEntry,
+  now: number = Date.now(),
+): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now
+}
+
+/**
+ * In-memory least recently used cache
+ */
+export class MemoryCache implements ICacheStore {
+  private entries = new Map<string, ICacheEntry>()
+  private maxEntries: number
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 500
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    if (isExpired(entry)) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs,
+    })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  /**
+   * Number of entries currently held, including expired entries not yet evicted
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * TTL in milliseconds for responses whose date range touches the present
+ */
+export const CACHE_TTL_BY_INTERVAL: Record<DataInterval, number> = {
+  "5m": 60 * 1000,
+  "1h": 5 * 60 * 1000,
+  "1d": 15 * 60 * 1000,
+  "7d": 60 * 60 * 1000,
+  "1M": 60 * 60 * 1000,
+  "3M": 60 * 60 * 1000,
+  season: 60 * 60 * 1000,
+  "1y": 60 * 60 * 1000,
+  fy: 60 * 60 * 1000,
+}
+
+const DEFAULT_CACHE_TTL = 60 * 1000
+
+/**
+ * Build a cache key from a request URL with query parameters sorted
+ *
+ * @param url The full request URL
+ * @param scope Prefix keeping entries apart, such as a hash of the API key
+ * @returns A normalised key that ignores query parameter order
+ */
+export function getCacheKey(url: string, scope?: string): string {
+  const [base, query = ""] = url.split("?")
+  const params = Array.from(new URLSearchParams(query).entries()).sort(
+    ([keyA, valueA], [keyB, valueB]) =>
+      keyA === keyB ? valueA.localeCompare(valueB) : keyA.localeCompare(keyB),
+  )
+  const key =
+    params.length === 0
+      ? base
+      : `${base}?${new URLSearchParams(params).toString()}`
+  return scope ? `${scope}:${key}` : key
+}
+
+/**
+ * Hash an API key with SHA-256 so cached responses can be scoped to the key
+ * without storing it
+ */
+export async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(apiKey),
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("")
+}
+
+/**
+ * Work out how long a response should be cached
+ *
+ * @param path The request path including query string
+ * @param now Current time in milliseconds
+ * @returns TTL in milliseconds, undefined to cache indefinitely, or null if
+ * the response should not be cached at all
+ */
+export function getCacheTtl(
+  path: string,
+  now: number = Date.now(),
+): number | undefined | null {
+  const [pathname, query = ""] = path.split("?")
+
+  // User information carries the live request quota
+  if (pathname === "/me") return null
+
+  const params = new URLSearchParams(query)
+  const interval = params.get("interval") as DataInterval | null
+  const ttl = (interval && CACHE_TTL_BY_INTERVAL[interval]) || DEFAULT_CACHE_TTL
+  const dateEnd = params.get("date_end")
+  if (!dateEnd) return ttl
+
+  // Dates are timezone naive in network time
+  const network = (pathname.match(/\/(NEM|WEM|AU)(\/|$)/)?.[1] ??
+    "NEM") as NetworkCode
+  const naive = dateEnd.includes("T") ? dateEnd : `${dateEnd}T00:00:00`
+  const end = Date.parse(`${naive}Z`) - getNetworkTimezoneOffset(network)
+  if (Number.isNaN(end)) return ttl
+
+  return end < now ? undefined : ttl
+}
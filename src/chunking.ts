@@ -0,0 +1,209 @@
+/**
+ * Date range chunking for long time series queries
+ *
+ * The API limits how much data a single request may cover for each interval.
+ * Long ranges are split into API-legal windows, fetched with bounded
+ * concurrency and merged back into a single response.
+ */
+
+import dayjs from "dayjs"
+import utc from "dayjs/plugin/utc"
+
+import type {
+  DataInterval,
+  IAPIResponse,
+  INetworkTimeSeries,
+  ITimeSeriesResult,
+} from "./types"
+
+dayjs.extend(utc)
+
+/**
+ * Maximum number of days a single request may cover for each interval
+ *
+ * These are conservative client-side estimates rather than limits published
+ * by the API. They size chunked windows, and are only enforced by validation
+ * when `rangeLimits` is set.
+ */
+export const MAX_DAYS_PER_REQUEST: Record<DataInterval, number> = {
+  "5m": 7,
+  "1h": 30,
+  "1d": 365,
+  "7d": 365,
+  "1M": 730,
+  "3M": 1825,
+  season: 1825,
+  "1y": 3650,
+  fy: 3650,
+}
+
+export interface IDateWindow {
+  dateStart: string
+  dateEnd: string
+}
+
+const NAIVE_DATE_FORMAT = "YYYY-MM-DDTHH:mm:ss"
+
+/**
+ * Split a date range into windows no longer than the API limit for the interval
+ *
+ * @param dateStart Timezone naive start date in network time
+ * @param dateEnd Timezone naive end date in network time
+ * @param interval The data interval (defaults to the API default of 5m)
+ * @param maxDays Override the number of days per window
+ * @returns Consecutive windows covering the range, each ending where the next starts
+ */
+export function splitDateRange(
+  dateStart: string,
+  dateEnd: string,
+  interval: DataInterval = "5m",
+  maxDays: number = MAX_DAYS_PER_REQUEST[interval],
+): IDateWindow[] {
+  const end = dayjs.utc(dateEnd)
+  let start = dayjs.utc(dateStart)
+  if (!start.isBefore(end)) {
+    return [{ dateStart, dateEnd }]
+  }
+
+  const windows: IDateWindow[] = []
+  while (start.isBefore(end)) {
+    const next = start.add(maxDays, "day")
+    const windowEnd = next.isBefore(end) ? next : end
+    windows.push({
+      dateStart: start.format(NAIVE_DATE_FORMAT),
+      dateEnd: windowEnd.format(NAIVE_DATE_FORMAT),
+    })
+    start = windowEnd
+  }
+  return windows
+}
+
+/**
+ * Run an async function over items with at most `concurrency` calls in flight
+ *
+ * After the first failure no more calls are started, and the signal passed to
+ * the calls still in flight is aborted.
+ *
+ * @param signal Aborts every call, such as the caller's request signal
+ * @returns Results in the same order as the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  const controller = new AbortController()
+  const abort = () => controller.abort(signal?.reason)
+  if (signal?.aborted) abort()
+  signal?.addEventListener("abort", abort, { once: true })
+  let next = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      if (controller.signal.aborted) throw controller.signal.reason
+      const index = next++
+      try {
+        results[index] = await fn(items[index], index, controller.signal)
+      } catch (error) {
+        controller.abort(error)
+        throw error
+      }
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    worker,
+  )
+  try {
+    await Promise.all(workers)
+  } finally {
+    signal?.removeEventListener("abort", abort)
+  }
+  return results
+}
+
+function minDate(a: string, b: string): string {
+  return Date.parse(a) <= Date.parse(b) ? a : b
+}
+
+function maxDate(a: string, b: string): string {
+  return Date.parse(a) >= Date.parse(b) ? a : b
+}
+
+/**
+ * Merge time series responses for consecutive windows into one response
+ *
+ * Series are matched by metric and results by their grouping columns.
+ * Data points are de-duplicated by timestamp (later windows win) and sorted.
+ *
+ * @param responses Responses in chronological order
+ * @returns A single response covering all windows
+ */
+export function mergeTimeSeriesResponses(
+  responses: IAPIResponse<INetworkTimeSeries[]>[],
+): IAPIResponse<INetworkTimeSeries[]> {
+  const seriesByMetric = new Map<string, INetworkTimeSeries>()
+  const pointsByResult = new Map<
+    ITimeSeriesResult,
+    Map<number, [string, number | null]>
+  >()
+
+  for (const response of responses) {
+    for (const series of response.data) {
+      let merged = seriesByMetric.get(series.metric)
+      if (!merged) {
+        merged = { ...series, results: [] }
+        seriesByMetric.set(series.metric, merged)
+      } else {
+        merged.start = minDate(merged.start, series.start)
+        merged.end = maxDate(merged.end, series.end)
+      }
+
+      for (const result of series.results) {
+        const columnsKey = JSON.stringify(result.columns)
+        let mergedResult = merged.results.find(
+          (r) => JSON.stringify(r.columns) === columnsKey,
+        )
+        if (!mergedResult) {
+          mergedResult = { ...result, data: [] }
+          merged.results.push(mergedResult)
+          pointsByResult.set(mergedResult, new Map())
+        } else {
+          mergedResult.date_start = minDate(
+            mergedResult.date_start,
+            result.date_start,
+          )
+          mergedResult.date_end = maxDate(
+            mergedResult.date_end,
+            result.date_end,
+          )
+        }
+
+        const points = pointsByResult.get(mergedResult)
+        for (const point of result.data) {
+          points?.set(Date.parse(point[0]), point)
+        }
+      }
+    }
+  }
+
+  for (const [result, points] of pointsByResult) {
+    result.data = Array.from(points.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, point]) => point)
+  }
+
+  // Count the merged records rather than adding up each window's count
+  const [first] = responses
+  const data = Array.from(seriesByMetric.values())
+  const hasTotal = responses.some((r) => r.total_records !== undefined)
+
+  return {
+    ...first,
+    data,
+    ...(hasTotal && { total_records: data.length }),
+  }
+}
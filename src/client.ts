@@ -7,29 +7,94 @@
 
 /// <reference lib="dom" />
 
-import { createDataTable } from "./datatable"
+import { getCacheKey, getCacheTtl, hashApiKey, type ICacheStore } from "./cache"
+import {
+  mapWithConcurrency,
+  mergeTimeSeriesResponses,
+  splitDateRange,
+} from "./chunking"
+import { createDataTable, DataTable, type IDataTableRow } from "./datatable"
 import { isAware, stripTimezone } from "./datetime"
+import {
+  AbortError,
+  createAPIError,
+  NoDataFound,
+  PermissionDeniedError,
+  RequestTimeoutError,
+} from "./errors"
+import {
+  createTraceparent,
+  emit,
+  getEndpoint,
+  type IInstrumentation,
+  type IRequestEndEvent,
+  type IRetryEvent,
+  type TraceContextOption,
+} from "./instrumentation"
+import { MetricsCatalog } from "./metrics"
+import {
+  type FetchFunction,
+  fetchWithMiddleware,
+  type IMiddleware,
+} from "./middleware"
+import {
+  type IQuotaStatus,
+  type IRateLimitOptions,
+  RateLimiter,
+} from "./ratelimit"
 import { type IRecord, RecordTable } from "./recordtable"
+import {
+  getRetryDelay,
+  type IRetryOptions,
+  parseRetryAfter,
+  resolveRetryOptions,
+  sleep,
+} from "./retry"
+import {
+  apiResponseSchema,
+  assertSchema,
+  facilitiesResponseSchema,
+  type Schema,
+  timeSeriesResponseSchema,
+  unknownValue,
+} from "./schema"
+import {
+  type ISubscribeOptions,
+  type ISubscription,
+  Subscription,
+} from "./subscription"
 import type {
   DataMetric,
   FacilityResponse,
   IAPIErrorResponse,
   IAPIResponse,
   IFacility,
+  IFacilityDetailResponse,
   IFacilityParams,
   IFacilityPollutionParams,
   IFacilityTimeSeriesParams,
+  IIterateOptions,
   IMarketTimeSeriesParams,
   IMetricsResponse,
   INetworkTimeSeries,
   INetworkTimeSeriesParams,
+  IRequestOptions,
   ITimeSeriesResponse,
   IUser,
   IValidationErrorDetail,
   MarketMetric,
   NetworkCode,
 } from "./types"
-import { debug } from "./utils"
+import { defaultLogger, type ILogger, withRedaction } from "./utils"
+import {
+  type IValidationOptions,
+  validateFacilityDataParams,
+  validateMarketParams,
+  validateNetworkDataParams,
+  validatePollutionParams,
+} from "./validation"
+
+export * from "./errors"
 
 export interface IFacilityEnergy {
   facility_code: string
@@ -57,23 +122,33 @@ export interface IFacilityRecord extends IRecord {
   [key: string]: string | number | boolean | null
 }
 
-export class OpenElectricityError extends Error {
-  constructor(
-    message: string,
-    public response?: IAPIErrorResponse,
-    public statusCode?: number,
-    public details?: IValidationErrorDetail | Record<string, unknown>,
-  ) {
-    super(message)
-    this.name = "OpenElectricityError"
-  }
-}
-
-export class NoDataFound extends Error {
-  constructor(message: string) {
-    super(message)
-    this.name = "NoDataFound"
-  }
+/**
+ * Add the attributes of each unit to the rows of a facility DataTable,
+ * matched on the unit_code column
+ */
+function joinUnitAttributes(
+  datatable: DataTable,
+  facility: IFacility,
+): DataTable {
+  const units = new Map(facility.units.map((unit) => [unit.code, unit]))
+  const rows = datatable.getRows().map((row) => {
+    const unit = units.get(row.unit_code as string)
+    if (!unit) return { ...row }
+    return {
+      ...row,
+      unit_fueltech: unit.fueltech_id,
+      unit_status: unit.status_id,
+      unit_capacity: unit.capacity_registered,
+      unit_emissions_factor: unit.emissions_factor_co2,
+      unit_dispatch_type: unit.dispatch_type,
+    }
+  })
+  return new DataTable(
+    rows,
+    datatable.getGroupings(),
+    datatable.getMetrics(),
+    datatable.getNetworkCode(),
+  )
 }
 
 /**
@@ -86,12 +161,13 @@ export class NoDataFound extends Error {
 function toTimezoneNaiveDate(
   date: string | undefined,
   paramName: string,
+  logger: ILogger,
 ): string | undefined {
   if (!date) return undefined
 
   if (isAware(date)) {
-    debug(
-      `Warning: ${paramName} contains timezone information which will be stripped. The API requires timezone naive dates in network time.`,
+    logger.warn(
+      `${paramName} contains timezone information which will be stripped. The API requires timezone naive dates in network time.`,
       {
         original: date,
         stripped: stripTimezone(date),
@@ -103,18 +179,219 @@ function toTimezoneNaiveDate(
   return date
 }
 
+export interface IOpenElectricityClientOptions {
+  apiKey?: string
+  baseUrl?: string
+  /**
+   * Retry policy for transient failures (429, 5xx and network errors).
+   * Pass false to disable retries.
+   */
+  retry?: Partial<IRetryOptions> | false
+  /**
+   * Response cache. Closed historical windows are cached indefinitely and
+   * windows touching the present expire after a TTL based on the interval.
+   */
+  cache?: ICacheStore
+  /**
+   * Default timeout in milliseconds for each API request (default 60000, 0 disables).
+   * Can be overridden per call.
+   */
+  timeoutMs?: number
+  /**
+   * Fetch implementation used for all requests (defaults to the global fetch).
+   * Useful for proxies, custom agents or testing, e.g. with withFixtures from
+   * "openelectricity/node" to record and replay responses.
+   */
+  fetch?: FetchFunction
+  /**
+   * Middleware run around every request attempt, in order
+   */
+  middleware?: IMiddleware[]
+  /**
+   * Validate parameters locally before making requests (default true).
+   * Invalid parameters throw a ValidationError without a round trip. Pass
+   * options to also enforce date range limits.
+   */
+  validate?: boolean | IValidationOptions
+  /**
+   * Client-side rate limits and the policy applied when the remaining API
+   * quota runs low (default: warn at 100 remaining requests)
+   */
+  rateLimit?: IRateLimitOptions
+  /**
+   * Share a single HTTP request between concurrent calls with the same path
+   * and query (default true). Each caller receives its own copy of the result.
+   */
+  deduplicate?: boolean
+  /**
+   * Check the shape of every response at runtime (default false). Responses
+   * that don't match the types throw a ResponseSchemaError listing the
+   * offending paths.
+   */
+  strict?: boolean
+  /**
+   * Logger for request diagnostics with debug, info, warn and error levels.
+   * Defaults to the console at the OPENELECTRICITY_LOG_LEVEL level, or debug
+   * in development and warn otherwise. Authorization headers and the API key
+   * are redacted from every message and field.
+   */
+  logger?: ILogger
+  /**
+   * Hooks called when each request starts and ends and before each retry,
+   * with the endpoint, status, duration, payload size, retry count and
+   * whether the cache answered. Use them to export metrics.
+   */
+  instrumentation?: IInstrumentation
+  /**
+   * Send a W3C traceparent header with every request. Pass true to start a
+   * new trace per request, or a function returning the active span's
+   * traceparent to continue its trace (default false).
+   */
+  traceContext?: TraceContextOption
+}
+
+type RetryCallback = (
+  retry: Pick<IRetryEvent, "attempt" | "delayMs" | "status" | "error">,
+) => void
+
+interface IInFlightRequest {
+  promise: Promise<unknown>
+  controller: AbortController
+  subscribers: number
+  active: number
+}
+
+/**
+ * Build the metrics, interval and date range query shared by the time series
+ * endpoints
+ */
+function timeSeriesQuery(
+  metrics: string[],
+  params: IFacilityTimeSeriesParams,
+  logger: ILogger,
+): URLSearchParams {
+  const queryParams = new URLSearchParams()
+  metrics.forEach((metric) => queryParams.append("metrics", metric))
+  if (params.interval) queryParams.set("interval", params.interval)
+  const dateStart = toTimezoneNaiveDate(params.dateStart, "dateStart", logger)
+  const dateEnd = toTimezoneNaiveDate(params.dateEnd, "dateEnd", logger)
+  if (dateStart) queryParams.set("date_start", dateStart)
+  if (dateEnd) queryParams.set("date_end", dateEnd)
+  return queryParams
+}
+
+function networkDataQuery(
+  metrics: DataMetric[],
+  params: INetworkTimeSeriesParams,
+  logger: ILogger,
+): URLSearchParams {
+  const queryParams = timeSeriesQuery(metrics, params, logger)
+  if (params.primaryGrouping)
+    queryParams.set("primary_grouping", params.primaryGrouping)
+  if (params.secondaryGrouping)
+    params.secondaryGrouping.forEach((secondaryGrouping) =>
+      queryParams.append("secondary_grouping", secondaryGrouping),
+    )
+  if (params.network_region)
+    queryParams.set("network_region", params.network_region)
+  if (params.fueltech)
+    params.fueltech.forEach((fueltech) =>
+      queryParams.append("fueltech", fueltech),
+    )
+  if (params.fueltech_group)
+    params.fueltech_group.forEach((fueltech_group) =>
+      queryParams.append("fueltech_group", fueltech_group),
+    )
+  return queryParams
+}
+
+function marketQuery(
+  metrics: MarketMetric[],
+  params: IMarketTimeSeriesParams,
+  logger: ILogger,
+): URLSearchParams {
+  const queryParams = timeSeriesQuery(metrics, params, logger)
+  if (params.primaryGrouping)
+    queryParams.set("primary_grouping", params.primaryGrouping)
+  if (params.network_region)
+    queryParams.set("network_region", params.network_region)
+  return queryParams
+}
+
+function facilityDataQuery(
+  facilityCodes: string | string[] | undefined,
+  metrics: DataMetric[],
+  params: IFacilityTimeSeriesParams,
+  logger: ILogger,
+): URLSearchParams {
+  const queryParams = timeSeriesQuery(metrics, params, logger)
+
+  // Handle single or multiple facility codes
+  if (facilityCodes) {
+    if (Array.isArray(facilityCodes)) {
+      facilityCodes.forEach((code) => queryParams.append("facility_code", code))
+    } else {
+      queryParams.append("facility_code", facilityCodes)
+    }
+  }
+
+  // Handle single or multiple unit codes
+  if (params.unitCodes) {
+    if (Array.isArray(params.unitCodes)) {
+      params.unitCodes.forEach((code) => queryParams.append("unit_code", code))
+    } else {
+      queryParams.append("unit_code", params.unitCodes)
+    }
+  }
+  return queryParams
+}
+
+// Metrics served by the network data endpoint rather than the market endpoint
+const DATA_METRICS: Record<DataMetric, true> = {
+  power: true,
+  energy: true,
+  emissions: true,
+  market_value: true,
+  pollution: true,
+  storage_battery: true,
+}
+
 export class OpenElectricityClient {
   private baseUrl: string
   private apiKey: string
+  private retry: IRetryOptions
+  private cache?: ICacheStore
+  private cacheScope?: Promise<string>
+  private timeoutMs: number
+  private fetch: FetchFunction
+  private middleware: IMiddleware[]
+  private validate: boolean
+  private validation: IValidationOptions
+  private rateLimiter: RateLimiter
+  private deduplicate: boolean
+  private strict: boolean
+  private logger: ILogger
+  private instrumentation?: IInstrumentation
+  private traceContext: TraceContextOption
+  private inFlight = new Map<string, IInFlightRequest>()
+  private networkFacilities = new Map<NetworkCode, Promise<IFacility[]>>()
+
+  /**
+   * Metric metadata from the API, loaded on first use
+   *
+   * @example
+   * ```typescript
+   * const { unit, precision } = await client.metrics.describe("curtailment_wind")
+   * await client.metrics.validate(["price", "demand"], "market")
+   * ```
+   */
+  public readonly metrics: MetricsCatalog = new MetricsCatalog(() =>
+    this.getAvailableMetrics(),
+  )
 
   // private static apiVersion: string = "v4"
 
-  constructor(
-    options: {
-      apiKey?: string
-      baseUrl?: string
-    } = {},
-  ) {
+  constructor(options: IOpenElectricityClientOptions = {}) {
     // eslint-disable-next-line no-undef
     this.apiKey = options.apiKey || process?.env?.OPENELECTRICITY_API_KEY || ""
     if (!this.apiKey) {
@@ -125,38 +402,382 @@ export class OpenElectricityClient {
       options.baseUrl ||
       process?.env?.OPENELECTRICITY_API_URL ||
       "https://api.openelectricity.org.au/v4"
+    this.retry = resolveRetryOptions(options.retry)
+    this.cache = options.cache
+    this.timeoutMs = options.timeoutMs ?? 60000
+    // Resolve the global fetch lazily so it is always called unbound
+    // eslint-disable-next-line no-undef
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init))
+    this.middleware = [...(options.middleware ?? [])]
+    this.validate = options.validate !== false
+    this.validation =
+      typeof options.validate === "object" ? options.validate : {}
+    this.logger = withRedaction(options.logger ?? defaultLogger, [this.apiKey])
+    this.rateLimiter = new RateLimiter(options.rateLimit, this.logger)
+    this.deduplicate = options.deduplicate ?? true
+    this.strict = options.strict ?? false
+    this.instrumentation = options.instrumentation
+    this.traceContext = options.traceContext ?? false
 
-    debug("Initializing client", { baseUrl: this.baseUrl })
+    this.logger.debug("Initializing client", {
+      baseUrl: this.baseUrl,
+      maxAttempts: this.retry.maxAttempts,
+    })
   }
 
+  /**
+   * Add middleware to run around every request attempt
+   *
+   * @param middleware Hooks to run after any previously registered middleware
+   * @returns The client, for chaining
+   */
+  use(middleware: IMiddleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Perform a fetch, retrying transient failures according to the retry policy
+   */
+  private async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    onRetry?: RetryCallback,
+    checkQuota = true,
+  ): Promise<Response> {
+    const { maxAttempts } = this.retry
+
+    for (let attempt = 1; ; attempt++) {
+      await this.rateLimiter.acquire(init.signal, checkQuota)
+
+      const method = init.method ?? "GET"
+      const startTime = Date.now()
+      let response: Response
+      try {
+        response = await fetchWithMiddleware(this.fetch, this.middleware, {
+          url,
+          init: {
+            ...init,
+            headers: { ...(init.headers as Record<string, string>) },
+          },
+          attempt,
+        })
+      } catch (error) {
+        if (attempt >= maxAttempts || !this.retry.isRetryableError(error)) {
+          throw error
+        }
+        const delay = getRetryDelay(attempt, this.retry)
+        this.logger.info(`Request error, retrying in ${Math.round(delay)}ms`, {
+          url,
+          method,
+          attempt,
+          maxAttempts,
+          error,
+        })
+        onRetry?.({ attempt, delayMs: delay, error })
+        await sleep(delay, init.signal)
+        continue
+      }
+
+      if (
+        response.ok ||
+        attempt >= maxAttempts ||
+        !this.retry.retryableStatusCodes.includes(response.status)
+      ) {
+        this.logger.info("Request completed", {
+          url,
+          method,
+          status: response.status,
+          durationMs: Date.now() - startTime,
+          attempt,
+        })
+        return response
+      }
+
+      const retryAfter = parseRetryAfter(response.headers?.get("Retry-After"))
+      const delay = getRetryDelay(attempt, this.retry, retryAfter)
+      this.logger.info(`Request failed, retrying in ${Math.round(delay)}ms`, {
+        url,
+        method,
+        attempt,
+        maxAttempts,
+        status: response.status,
+        statusText: response.statusText,
+        retryAfter,
+      })
+      onRetry?.({ attempt, delayMs: delay, status: response.status })
+      await sleep(delay, init.signal)
+    }
+  }
+
+  /**
+   * Make a request to an endpoint returning the standard API response envelope
+   */
   private async request<T>(
     path: string,
     options: RequestInit = {},
+    requestOptions: IRequestOptions = {},
+    schema: Schema = apiResponseSchema(unknownValue),
   ): Promise<IAPIResponse<T>> {
-    const url = `${this.baseUrl}${path}`
+    const response = await this.requestJSON<IAPIResponse<T>>(
+      path,
+      options,
+      requestOptions,
+    )
+    if (this.strict) assertSchema(schema, response, path)
+    return response
+  }
+
+  /**
+   * Make an API request, applying the caller's AbortSignal and the timeout
+   */
+  private async requestJSON<R>(
+    path: string,
+    options: RequestInit = {},
+    requestOptions: IRequestOptions = {},
+  ): Promise<R> {
+    const { signal } = requestOptions
+    const timeoutMs = requestOptions.timeoutMs ?? this.timeoutMs
+    if (signal?.aborted) {
+      throw new AbortError()
+    }
+
+    const controller = new AbortController()
+    const onAbort = () => controller.abort()
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    let timedOut = false
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true
+            controller.abort()
+          }, timeoutMs)
+        : undefined
+
+    try {
+      return await this.sendDeduplicated<R>(path, options, controller.signal)
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.logger.debug(timedOut ? "Request timed out" : "Request aborted", {
+          path,
+          timeoutMs,
+        })
+        if (timedOut) {
+          throw new RequestTimeoutError(
+            `Request timed out after ${timeoutMs}ms`,
+            timeoutMs,
+          )
+        }
+        throw new AbortError()
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+    }
+  }
+
+  /**
+   * Send a request, sharing one in-flight HTTP request between concurrent
+   * identical GET requests. The shared request is only aborted once every
+   * caller waiting on it has aborted.
+   */
+  private async sendDeduplicated<R>(
+    path: string,
+    options: RequestInit,
+    signal: AbortSignal,
+  ): Promise<R> {
+    if (!this.deduplicate || (options.method ?? "GET") !== "GET") {
+      return this.sendRequest<R>(path, { ...options, signal })
+    }
+
+    const key = getCacheKey(`${this.baseUrl}${path}`)
+    let entry = this.inFlight.get(key)
+    if (!entry || entry.controller.signal.aborted) {
+      const controller = new AbortController()
+      const created: IInFlightRequest = {
+        controller,
+        subscribers: 0,
+        active: 0,
+        promise: this.sendRequest<R>(path, {
+          ...options,
+          signal: controller.signal,
+        }).finally(() => {
+          if (this.inFlight.get(key) === created) this.inFlight.delete(key)
+        }),
+      }
+      entry = created
+      this.inFlight.set(key, entry)
+    } else {
+      this.logger.debug("Joining in-flight request", { path })
+    }
+
+    const shared = entry
+    shared.subscribers++
+    shared.active++
+
+    const data = await new Promise<R>((resolve, reject) => {
+      const onAbort = () => {
+        shared.active--
+        if (shared.active === 0) shared.controller.abort()
+        reject(signal.reason)
+      }
+      signal.addEventListener("abort", onAbort, { once: true })
+      shared.promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort)
+          resolve(value as R)
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+      )
+    })
+
+    // Callers that shared a request each get their own copy
+    return shared.subscribers > 1
+      ? (JSON.parse(JSON.stringify(data)) as R)
+      : data
+  }
+
+  /**
+   * Make a single request, reporting it to the instrumentation hooks
+   */
+  private async sendRequest<R>(path: string, options: RequestInit): Promise<R> {
+    const traceparent = this.getTraceparent()
+    const event: IRequestEndEvent = {
+      endpoint: getEndpoint(path),
+      url: `${this.baseUrl}${path}`,
+      method: options.method ?? "GET",
+      ...(traceparent ? { traceparent } : {}),
+      durationMs: 0,
+      retries: 0,
+      cacheHit: false,
+    }
+    const { endpoint, url, method } = event
+    emit(
+      this.instrumentation,
+      "onRequestStart",
+      { endpoint, url, method, ...(traceparent ? { traceparent } : {}) },
+      this.logger,
+    )
+
+    const startTime = Date.now()
+    try {
+      return await this.performRequest<R>(path, options, event)
+    } catch (error) {
+      event.error = error
+      throw error
+    } finally {
+      event.durationMs = Date.now() - startTime
+      emit(this.instrumentation, "onRequestEnd", event, this.logger)
+    }
+  }
+
+  private getTraceparent(): string | undefined {
+    if (!this.traceContext) return undefined
+    if (this.traceContext === true) return createTraceparent()
+    let parent: string | undefined
+    try {
+      parent = this.traceContext()
+    } catch (error) {
+      this.logger.warn("Trace context lookup failed", { error })
+    }
+    return createTraceparent(parent)
+  }
+
+  /**
+   * Read a JSON body, measuring its size when instrumentation needs it
+   */
+  private async readJSON(
+    response: Response,
+    event: IRequestEndEvent,
+  ): Promise<unknown> {
+    const contentLength = response.headers?.get("Content-Length")
+    if (contentLength) event.bytes = Number(contentLength)
+
+    if (
+      event.bytes === undefined &&
+      this.instrumentation?.onRequestEnd &&
+      typeof response.text === "function"
+    ) {
+      const text = await response.text()
+      event.bytes = new TextEncoder().encode(text).length
+      return JSON.parse(text)
+    }
+    return response.json()
+  }
+
+  private async performRequest<R>(
+    path: string,
+    options: RequestInit,
+    event: IRequestEndEvent,
+  ): Promise<R> {
+    const { url } = event
+    const cacheTtl =
+      this.cache && (options.method ?? "GET") === "GET"
+        ? getCacheTtl(path)
+        : null
+
+    // Responses depend on the key's access, so keep each key's entries apart
+    let cacheKey = ""
+    if (this.cache && cacheTtl !== null) {
+      this.cacheScope ??= hashApiKey(this.apiKey)
+      cacheKey = getCacheKey(url, await this.cacheScope)
+
+      const cached = await this.cache.get(cacheKey).catch((error) => {
+        this.logger.warn("Cache read failed", { url, error })
+        return undefined
+      })
+      if (cached !== undefined) {
+        this.logger.debug("Cache hit", { url, cacheHit: true })
+        event.cacheHit = true
+        event.bytes = new TextEncoder().encode(cached).length
+        return JSON.parse(cached) as R
+      }
+    }
+
     const headers = {
       Authorization: `Bearer ${this.apiKey}`,
       "Content-Type": "application/json",
+      ...(event.traceparent ? { traceparent: event.traceparent } : {}),
       ...options.headers,
     }
 
-    debug("Making request", {
+    this.logger.debug("Making request", {
       url,
       method: options.method || "GET",
-      headers: { ...headers, Authorization: "***" },
-    })
-
-    const startTime = Date.now()
-    // eslint-disable-next-line no-undef
-    const response = await fetch(url, {
-      ...options,
       headers,
+      ...(this.cache && cacheTtl !== null ? { cacheHit: false } : {}),
     })
 
-    const duration = Date.now() - startTime
-    debug(`Request completed in ${duration}ms`, {
-      status: response.status,
-      statusText: response.statusText,
+    const response = await this.fetchWithRetry(
+      url,
+      { ...options, headers },
+      (retry) => {
+        event.retries++
+        emit(
+          this.instrumentation,
+          "onRetry",
+          {
+            endpoint: event.endpoint,
+            url,
+            method: event.method,
+            ...(event.traceparent ? { traceparent: event.traceparent } : {}),
+            ...retry,
+          },
+          this.logger,
+        )
+      },
+      // /me reports the quota, so it must stay reachable when it is low
+      event.endpoint !== "/me",
+    )
+    event.status = response.status
+
+    this.rateLimiter.update({
+      remaining: this.getRateLimitInfo(response).remaining,
     })
 
     // Special handling for 404 (no results)
@@ -166,21 +787,25 @@ export class OpenElectricityClient {
 
     // Special handling for 403 (permission denied)
     if (response.status === 403) {
-      debug("Permission denied", {
+      this.logger.debug("Permission denied", {
+        url,
         status: response.status,
         statusText: response.statusText,
       })
-      throw new Error("Permission denied. Check API key or your access level")
+      throw new PermissionDeniedError(
+        "Permission denied. Check API key or your access level",
+      )
     }
 
     // Try to parse JSON response, handle cases where response is not valid JSON
     let data: unknown
     try {
-      data = await response.json()
+      data = await this.readJSON(response, event)
     } catch (jsonError) {
       // If we can't parse JSON and it's an error response, provide a meaningful error
       if (!response.ok) {
-        debug("Failed to parse JSON response", {
+        this.logger.debug("Failed to parse JSON response", {
+          url,
           status: response.status,
           statusText: response.statusText,
           error: jsonError,
@@ -188,19 +813,20 @@ export class OpenElectricityClient {
 
         // For 500 errors, provide a more specific message
         if (response.status === 500) {
-          throw new OpenElectricityError(
+          throw createAPIError(
             "Internal server error - the requested data may not be available for this date range",
-            undefined,
             response.status,
+            undefined,
             { parseError: "Response was not valid JSON" },
           )
         }
 
-        throw new OpenElectricityError(
+        throw createAPIError(
           `API request failed: ${response.statusText} (unable to parse response)`,
-          undefined,
           response.status,
+          undefined,
           { parseError: "Response was not valid JSON" },
+          this.getRateLimitInfo(response),
         )
       }
       throw jsonError
@@ -208,7 +834,8 @@ export class OpenElectricityClient {
 
     // Handle API error responses
     if (!response.ok) {
-      debug("Request failed", {
+      this.logger.debug("Request failed", {
+        url,
         status: response.status,
         statusText: response.statusText,
         data,
@@ -230,6 +857,14 @@ export class OpenElectricityClient {
         const detail = data.detail
         if (typeof detail === "string") {
           errorMessage = detail
+        } else if (Array.isArray(detail)) {
+          // Handle FastAPI request validation errors (HTTPValidationError)
+          const messages = detail
+            .map((item) => item?.msg)
+            .filter((msg) => typeof msg === "string")
+          if (messages.length > 0) {
+            errorMessage = messages.join("; ")
+          }
         } else if (typeof detail === "object" && detail !== null) {
           // Handle structured error details (from improved validation)
           if ("error" in detail) {
@@ -251,15 +886,171 @@ export class OpenElectricityClient {
         errorDetails = data as Record<string, unknown>
       }
 
-      throw new OpenElectricityError(
+      throw createAPIError(
         errorMessage,
-        this.isAPIErrorResponse(data) ? data : undefined,
         response.status,
+        this.isAPIErrorResponse(data) ? data : undefined,
         errorDetails,
+        this.getRateLimitInfo(response),
       )
     }
 
-    return data as IAPIResponse<T>
+    if (this.cache && cacheTtl !== null) {
+      await this.cache
+        .set(cacheKey, JSON.stringify(data), cacheTtl)
+        .catch((error) =>
+          this.logger.warn("Cache write failed", { url, error }),
+        )
+    }
+
+    return data as R
+  }
+
+  /**
+   * Request a time series endpoint, splitting the date range into chunks when
+   * params.chunk is set and merging the chunk responses
+   */
+  private async requestTimeSeries(
+    path: string,
+    queryParams: URLSearchParams,
+    params: IFacilityTimeSeriesParams,
+    options: IRequestOptions,
+  ): Promise<IAPIResponse<INetworkTimeSeries[]>> {
+    const dateStart = queryParams.get("date_start")
+    const dateEnd = queryParams.get("date_end")
+
+    if (!params.chunk || !dateStart || !dateEnd) {
+      const query = queryParams.toString() ? `?${queryParams.toString()}` : ""
+      return this.request<INetworkTimeSeries[]>(
+        `${path}${query}`,
+        {},
+        options,
+        timeSeriesResponseSchema,
+      )
+    }
+
+    const { concurrency = 3, maxDays } =
+      params.chunk === true ? {} : params.chunk
+    const windows = splitDateRange(dateStart, dateEnd, params.interval, maxDays)
+    this.logger.debug("Splitting request into chunks", {
+      path,
+      chunks: windows.length,
+      concurrency,
+    })
+
+    // A failed window fails the range, so the rest are cancelled
+    const responses = await mapWithConcurrency(
+      windows,
+      concurrency,
+      async (window, _index, signal) => {
+        const chunkParams = new URLSearchParams(queryParams)
+        chunkParams.set("date_start", window.dateStart)
+        chunkParams.set("date_end", window.dateEnd)
+        try {
+          return await this.request<INetworkTimeSeries[]>(
+            `${path}?${chunkParams.toString()}`,
+            {},
+            { ...options, signal },
+            timeSeriesResponseSchema,
+          )
+        } catch (error) {
+          // A window without data shouldn't fail the whole range
+          if (error instanceof NoDataFound) return undefined
+          throw error
+        }
+      },
+      options.signal,
+    )
+
+    const found = responses.filter((response) => response !== undefined)
+    if (found.length === 0) {
+      throw new NoDataFound("No data found for the requested parameters")
+    }
+    return mergeTimeSeriesResponses(found)
+  }
+  /**
+   * Walk a time series date range one chunk at a time, only fetching the next
+   * chunk once the consumer has taken the previous one
+   */
+  private async *iterateTimeSeries(
+    path: string,
+    queryParams: URLSearchParams,
+    params: IFacilityTimeSeriesParams,
+    options: IIterateOptions,
+  ): AsyncGenerator<DataTable | IDataTableRow> {
+    const dateStart = queryParams.get("date_start")
+    const dateEnd = queryParams.get("date_end")
+    const maxDays =
+      typeof params.chunk === "object" ? params.chunk.maxDays : undefined
+    const windows =
+      dateStart && dateEnd
+        ? splitDateRange(dateStart, dateEnd, params.interval, maxDays)
+        : [undefined]
+
+    // Windows share their boundary timestamps, so skip rows at or before the
+    // last interval of the previous window
+    let previousEnd = Number.NEGATIVE_INFINITY
+    for (const window of windows) {
+      const chunkParams = new URLSearchParams(queryParams)
+      if (window) {
+        chunkParams.set("date_start", window.dateStart)
+        chunkParams.set("date_end", window.dateEnd)
+      }
+
+      let response: IAPIResponse<INetworkTimeSeries[]>
+      try {
+        response = await this.request<INetworkTimeSeries[]>(
+          `${path}?${chunkParams.toString()}`,
+          {},
+          options,
+          timeSeriesResponseSchema,
+        )
+      } catch (error) {
+        // A window without data shouldn't end the iteration
+        if (error instanceof NoDataFound) continue
+        throw error
+      }
+      if (response.data.length === 0) continue
+
+      const table = createDataTable(response.data)
+      const rows = table
+        .getRows()
+        .filter((row) => row.interval.getTime() > previousEnd)
+      for (const row of rows) {
+        previousEnd = Math.max(previousEnd, row.interval.getTime())
+      }
+      if (rows.length === 0) continue
+
+      if (options.rows) {
+        yield* rows
+      } else {
+        yield rows.length === table.getRows().length
+          ? table
+          : new DataTable(
+              rows,
+              table.getGroupings(),
+              table.getMetrics(),
+              table.getNetworkCode(),
+            )
+      }
+    }
+  }
+
+  /**
+   * Read the Retry-After delay and remaining quota from response headers
+   */
+  private getRateLimitInfo(response: Response): {
+    retryAfterMs?: number
+    remaining?: number
+  } {
+    const remaining = Number.parseInt(
+      response.headers?.get("X-RateLimit-Remaining") ?? "",
+      10,
+    )
+    return {
+      retryAfterMs: parseRetryAfter(response.headers?.get("Retry-After")),
+      remaining: Number.isNaN(remaining) ? undefined : remaining,
+    }
   }
 
   private isAPIErrorResponse(data: unknown): data is IAPIErrorResponse {
@@ -277,21 +1068,11 @@ export class OpenElectricityClient {
    * Get available metrics and their metadata
    * Useful for discovering what metrics are supported by the API
    */
-  async getAvailableMetrics(): Promise<IMetricsResponse> {
-    debug("Getting available metrics")
-    const url = `${this.baseUrl}/metrics`
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Failed to get metrics: ${response.statusText}`)
-    }
-
-    return (await response.json()) as IMetricsResponse
+  async getAvailableMetrics(
+    options: IRequestOptions = {},
+  ): Promise<IMetricsResponse> {
+    this.logger.debug("Getting available metrics")
+    return this.requestJSON<IMetricsResponse>("/metrics", {}, options)
   }
 
   /**
@@ -306,36 +1087,20 @@ export class OpenElectricityClient {
     networkCode: NetworkCode,
     metrics: DataMetric[],
     params: INetworkTimeSeriesParams = {},
+    options: IRequestOptions = {},
   ): Promise<ITimeSeriesResponse> {
-    debug("Getting network data", { networkCode, metrics, params })
+    this.logger.debug("Getting network data", { networkCode, metrics, params })
+    if (this.validate) {
+      validateNetworkDataParams(networkCode, metrics, params, this.validation)
+    }
 
-    const queryParams = new URLSearchParams()
-    metrics.forEach((metric) => queryParams.append("metrics", metric))
-    if (params.interval) queryParams.set("interval", params.interval)
-    const dateStart = toTimezoneNaiveDate(params.dateStart, "dateStart")
-    const dateEnd = toTimezoneNaiveDate(params.dateEnd, "dateEnd")
-    if (dateStart) queryParams.set("date_start", dateStart)
-    if (dateEnd) queryParams.set("date_end", dateEnd)
-    if (params.primaryGrouping)
-      queryParams.set("primary_grouping", params.primaryGrouping)
-    if (params.secondaryGrouping)
-      params.secondaryGrouping.forEach((secondaryGrouping) =>
-        queryParams.append("secondary_grouping", secondaryGrouping),
-      )
-    if (params.network_region)
-      queryParams.set("network_region", params.network_region)
-    if (params.fueltech)
-      params.fueltech.forEach((fueltech) =>
-        queryParams.append("fueltech", fueltech),
-      )
-    if (params.fueltech_group)
-      params.fueltech_group.forEach((fueltech_group) =>
-        queryParams.append("fueltech_group", fueltech_group),
-      )
+    const queryParams = networkDataQuery(metrics, params, this.logger)
 
-    const query = queryParams.toString() ? `?${queryParams.toString()}` : ""
-    const response = await this.request<INetworkTimeSeries[]>(
-      `/data/network/${networkCode}${query}`,
+    const response = await this.requestTimeSeries(
+      `/data/network/${networkCode}`,
+      queryParams,
+      params,
+      options,
     )
 
     return {
@@ -357,47 +1122,30 @@ export class OpenElectricityClient {
     facilityCodes: string | string[] | undefined,
     metrics: DataMetric[],
     params: IFacilityTimeSeriesParams = {},
+    options: IRequestOptions = {},
   ): Promise<ITimeSeriesResponse> {
-    debug("Getting facility data", {
+    this.logger.debug("Getting facility data", {
       networkCode,
       facilityCodes,
       metrics,
       params,
     })
-
-    const queryParams = new URLSearchParams()
-    metrics.forEach((metric) => queryParams.append("metrics", metric))
-    if (params.interval) queryParams.set("interval", params.interval)
-    const dateStart = toTimezoneNaiveDate(params.dateStart, "dateStart")
-    const dateEnd = toTimezoneNaiveDate(params.dateEnd, "dateEnd")
-    if (dateStart) queryParams.set("date_start", dateStart)
-    if (dateEnd) queryParams.set("date_end", dateEnd)
-
-    // Handle single or multiple facility codes
-    if (facilityCodes) {
-      if (Array.isArray(facilityCodes)) {
-        facilityCodes.forEach((code) =>
-          queryParams.append("facility_code", code),
-        )
-      } else {
-        queryParams.append("facility_code", facilityCodes)
-      }
+    if (this.validate) {
+      validateFacilityDataParams(networkCode, metrics, params, this.validation)
     }
 
-    // Handle single or multiple unit codes
-    if (params.unitCodes) {
-      if (Array.isArray(params.unitCodes)) {
-        params.unitCodes.forEach((code) =>
-          queryParams.append("unit_code", code),
-        )
-      } else {
-        queryParams.append("unit_code", params.unitCodes)
-      }
-    }
+    const queryParams = facilityDataQuery(
+      facilityCodes,
+      metrics,
+      params,
+      this.logger,
+    )
 
-    const query = queryParams.toString() ? `?${queryParams.toString()}` : ""
-    const response = await this.request<INetworkTimeSeries[]>(
-      `/data/facilities/${networkCode}${query}`,
+    const response = await this.requestTimeSeries(
+      `/data/facilities/${networkCode}`,
+      queryParams,
+      params,
+      options,
     )
     return {
       response,
@@ -417,24 +1165,20 @@ export class OpenElectricityClient {
     networkCode: NetworkCode,
     metrics: MarketMetric[],
     params: IMarketTimeSeriesParams = {},
+    options: IRequestOptions = {},
   ): Promise<ITimeSeriesResponse> {
-    debug("Getting market data", { networkCode, metrics, params })
+    this.logger.debug("Getting market data", { networkCode, metrics, params })
+    if (this.validate) {
+      validateMarketParams(networkCode, metrics, params, this.validation)
+    }
 
-    const queryParams = new URLSearchParams()
-    metrics.forEach((metric) => queryParams.append("metrics", metric))
-    if (params.interval) queryParams.set("interval", params.interval)
-    const dateStart = toTimezoneNaiveDate(params.dateStart, "dateStart")
-    const dateEnd = toTimezoneNaiveDate(params.dateEnd, "dateEnd")
-    if (dateStart) queryParams.set("date_start", dateStart)
-    if (dateEnd) queryParams.set("date_end", dateEnd)
-    if (params.primaryGrouping)
-      queryParams.set("primary_grouping", params.primaryGrouping)
-    if (params.network_region)
-      queryParams.set("network_region", params.network_region)
+    const queryParams = marketQuery(metrics, params, this.logger)
 
-    const query = queryParams.toString() ? `?${queryParams.toString()}` : ""
-    const response = await this.request<INetworkTimeSeries[]>(
-      `/market/network/${networkCode}${query}`,
+    const response = await this.requestTimeSeries(
+      `/market/network/${networkCode}`,
+      queryParams,
+      params,
+      options,
     )
 
     return {
@@ -448,8 +1192,11 @@ export class OpenElectricityClient {
    * Optionally filter by status, fueltech, network and region
    * Returns empty result if no facilities match the filters (404 status code)
    */
-  async getFacilities(params: IFacilityParams = {}): Promise<FacilityResponse> {
-    debug("Getting facilities", { params })
+  async getFacilities(
+    params: IFacilityParams = {},
+    options: IRequestOptions = {},
+  ): Promise<FacilityResponse> {
+    this.logger.debug("Getting facilities", { params })
 
     const queryParams = new URLSearchParams()
     if (params.status_id) {
@@ -475,7 +1222,12 @@ export class OpenElectricityClient {
       queryParams.set("network_region", params.network_region)
 
     const query = queryParams.toString() ? `?${queryParams.toString()}` : ""
-    const response = await this.request<IFacility[]>(`/facilities/${query}`)
+    const response = await this.request<IFacility[]>(
+      `/facilities/${query}`,
+      {},
+      options,
+      facilitiesResponseSchema,
+    )
 
     // Create a record table with units as rows, including facility information
     const records: IFacilityRecord[] = response.data.flatMap((facility) =>
@@ -502,6 +1254,254 @@ export class OpenElectricityClient {
     }
   }
 
+  /**
+   * Iterate over network data chunk by chunk, see getNetworkData
+   *
+   * The date range is split into API-legal windows (or `chunk.maxDays`) that
+   * are fetched one at a time as the consumer pulls, yielding a DataTable per
+   * chunk, or individual rows with `{ rows: true }`.
+   */
+  iterateNetworkData(
+    networkCode: NetworkCode,
+    metrics: DataMetric[],
+    params: INetworkTimeSeriesParams,
+    options: IIterateOptions & { rows: true },
+  ): AsyncGenerator<IDataTableRow>
+  iterateNetworkData(
+    networkCode: NetworkCode,
+    metrics: DataMetric[],
+    params?: INetworkTimeSeriesParams,
+    options?: IIterateOptions,
+  ): AsyncGenerator<DataTable>
+  iterateNetworkData(
+    networkCode: NetworkCode,
+    metrics: DataMetric[],
+    params: INetworkTimeSeriesParams = {},
+    options: IIterateOptions = {},
+  ): AsyncGenerator<DataTable | IDataTableRow> {
+    this.logger.debug("Iterating network data", {
+      networkCode,
+      metrics,
+      params,
+    })
+    if (this.validate) {
+      validateNetworkDataParams(networkCode, metrics, {
+        ...params,
+        chunk: true,
+      })
+    }
+    return this.iterateTimeSeries(
+      `/data/network/${networkCode}`,
+      networkDataQuery(metrics, params, this.logger),
+      params,
+      options,
+    )
+  }
+
+  /**
+   * Iterate over facility data chunk by chunk, see getFacilityData and
+   * iterateNetworkData
+   */
+  iterateFacilityData(
+    networkCode: NetworkCode,
+    facilityCodes: string | string[] | undefined,
+    metrics: DataMetric[],
+    params: IFacilityTimeSeriesParams,
+    options: IIterateOptions & { rows: true },
+  ): AsyncGenerator<IDataTableRow>
+  iterateFacilityData(
+    networkCode: NetworkCode,
+    facilityCodes: string | string[] | undefined,
+    metrics: DataMetric[],
+    params?: IFacilityTimeSeriesParams,
+    options?: IIterateOptions,
+  ): AsyncGenerator<DataTable>
+  iterateFacilityData(
+    networkCode: NetworkCode,
+    facilityCodes: string | string[] | undefined,
+    metrics: DataMetric[],
+    params: IFacilityTimeSeriesParams = {},
+    options: IIterateOptions = {},
+  ): AsyncGenerator<DataTable | IDataTableRow> {
+    this.logger.debug("Iterating facility data", {
+      networkCode,
+      facilityCodes,
+      metrics,
+      params,
+    })
+    if (this.validate) {
+      validateFacilityDataParams(networkCode, metrics, {
+        ...params,
+        chunk: true,
+      })
+    }
+    return this.iterateTimeSeries(
+      `/data/facilities/${networkCode}`,
+      facilityDataQuery(facilityCodes, metrics, params, this.logger),
+      params,
+      options,
+    )
+  }
+
+  /**
+   * Iterate over market data chunk by chunk, see getMarket and
+   * iterateNetworkData
+   */
+  iterateMarket(
+    networkCode: NetworkCode,
+    metrics: MarketMetric[],
+    params: IMarketTimeSeriesParams,
+    options: IIterateOptions & { rows: true },
+  ): AsyncGenerator<IDataTableRow>
+  iterateMarket(
+    networkCode: NetworkCode,
+    metrics: MarketMetric[],
+    params?: IMarketTimeSeriesParams,
+    options?: IIterateOptions,
+  ): AsyncGenerator<DataTable>
+  iterateMarket(
+    networkCode: NetworkCode,
+    metrics: MarketMetric[],
+    params: IMarketTimeSeriesParams = {},
+    options: IIterateOptions = {},
+  ): AsyncGenerator<DataTable | IDataTableRow> {
+    this.logger.debug("Iterating market data", { networkCode, metrics, params })
+    if (this.validate) {
+      validateMarketParams(networkCode, metrics, { ...params, chunk: true })
+    }
+    return this.iterateTimeSeries(
+      `/market/network/${networkCode}`,
+      marketQuery(metrics, params, this.logger),
+      params,
+      options,
+    )
+  }
+
+  /**
+   * Poll for new completed 5-minute intervals
+   *
+   * Each poll re-fetches the last few intervals, so `onData` receives rows for
+   * intervals it hasn't seen before along with any that have been revised.
+   * Failed polls back off exponentially up to `maxBackoffMs`. Polling stops
+   * when the returned subscription is unsubscribed or `signal` is aborted.
+   */
+  subscribe(options: ISubscribeOptions): ISubscription {
+    const { network, metrics, grouping, network_region } = options
+    const isData = metrics.some((metric) => metric in DATA_METRICS)
+    this.logger.debug("Subscribing", {
+      network,
+      metrics,
+      grouping,
+      network_region,
+    })
+
+    return new Subscription(
+      options,
+      async (range, signal) => {
+        const params = {
+          interval: "5m" as const,
+          ...range,
+          primaryGrouping: grouping,
+          network_region,
+        }
+        try {
+          const { datatable } = isData
+            ? await this.getNetworkData(
+                network,
+                metrics as DataMetric[],
+                params,
+                { signal },
+              )
+            : await this.getMarket(network, metrics as MarketMetric[], params, {
+                signal,
+              })
+          return datatable?.getRows() ?? []
+        } catch (error) {
+          if (error instanceof NoDataFound) return []
+          throw error
+        }
+      },
+      this.logger,
+    )
+  }
+
+  /**
+   * Get metadata and time series data for a single facility from the
+   * /data/facility endpoint
+   *
+   * The returned DataTable has a row per unit and interval, joined with the
+   * unit's fueltech, status, capacity, emissions factor and dispatch type.
+   * The facility metadata comes from the network's facility list, which is
+   * fetched on the first call for each network and reused after that.
+   *
+   * @throws NoDataFound if the facility does not exist in the network
+   */
+  async getFacility(
+    networkCode: NetworkCode,
+    facilityCode: string,
+    metrics: DataMetric[],
+    params: Omit<IFacilityTimeSeriesParams, "unitCodes"> = {},
+    options: IRequestOptions = {},
+  ): Promise<IFacilityDetailResponse> {
+    this.logger.debug("Getting facility", {
+      networkCode,
+      facilityCode,
+      metrics,
+      params,
+    })
+    if (this.validate) {
+      validateFacilityDataParams(networkCode, metrics, params, this.validation)
+    }
+
+    const queryParams = timeSeriesQuery(metrics, params, this.logger)
+
+    const [facilities, response] = await Promise.all([
+      this.getNetworkFacilities(networkCode, options),
+      this.requestTimeSeries(
+        `/data/facility/${networkCode}/${encodeURIComponent(facilityCode)}`,
+        queryParams,
+        params,
+        options,
+      ),
+    ])
+
+    const facility = facilities.find((item) => item.code === facilityCode)
+    if (!facility) {
+      throw new NoDataFound(
+        `Facility ${facilityCode} not found in network ${networkCode}`,
+      )
+    }
+
+    return {
+      response,
+      facility,
+      datatable: joinUnitAttributes(createDataTable(response.data), facility),
+    }
+  }
+
+  /**
+   * Get a network's facilities, fetching the list once per client
+   *
+   * The facility list has no code filter, so single facility lookups search
+   * the whole network.
+   */
+  private getNetworkFacilities(
+    networkCode: NetworkCode,
+    options: IRequestOptions,
+  ): Promise<IFacility[]> {
+    let facilities = this.networkFacilities.get(networkCode)
+    if (!facilities) {
+      facilities = this.getFacilities(
+        { network_id: networkCode },
+        options,
+      ).then(({ response }) => response.data)
+      // Let a failed lookup be retried by the next call
+      facilities.catch(() => this.networkFacilities.delete(networkCode))
+      this.networkFacilities.set(networkCode, facilities)
+    }
+    return facilities
+  }
+
   /**
    * Get pollution data for facilities with NPI tracking
    * Returns time series data for pollutants from the National Pollutant Inventory
@@ -510,8 +1510,10 @@ export class OpenElectricityClient {
    */
   async getFacilityPollution(
     params: IFacilityPollutionParams = {},
+    options: IRequestOptions = {},
   ): Promise<ITimeSeriesResponse> {
-    debug("Getting facility pollution data", { params })
+    this.logger.debug("Getting facility pollution data", { params })
+    if (this.validate) validatePollutionParams(params)
 
     const queryParams = new URLSearchParams()
 
@@ -534,18 +1536,29 @@ export class OpenElectricityClient {
     }
 
     if (params.dateStart) {
-      const dateStart = toTimezoneNaiveDate(params.dateStart, "dateStart")
+      const dateStart = toTimezoneNaiveDate(
+        params.dateStart,
+        "dateStart",
+        this.logger,
+      )
       if (dateStart) queryParams.set("date_start", dateStart)
     }
 
     if (params.dateEnd) {
-      const dateEnd = toTimezoneNaiveDate(params.dateEnd, "dateEnd")
+      const dateEnd = toTimezoneNaiveDate(
+        params.dateEnd,
+        "dateEnd",
+        this.logger,
+      )
       if (dateEnd) queryParams.set("date_end", dateEnd)
     }
 
     const query = queryParams.toString() ? `?${queryParams.toString()}` : ""
     const response = await this.request<INetworkTimeSeries[]>(
       `/pollution/facilities${query}`,
+      {},
+      options,
+      timeSeriesResponseSchema,
     )
 
     // Create data table from the response
@@ -561,8 +1574,31 @@ export class OpenElectricityClient {
   /**
    * Get current user information
    */
-  async getCurrentUser(): Promise<IAPIResponse<IUser>> {
-    debug("Getting current user")
-    return this.request<IUser>("/me")
+  async getCurrentUser(
+    options: IRequestOptions = {},
+  ): Promise<IAPIResponse<IUser>> {
+    this.logger.debug("Getting current user")
+    const response = await this.request<IUser>("/me", {}, options)
+    const { meta, plan, rate_limit } = response.data
+    this.rateLimiter.update({
+      remaining: rate_limit?.remaining ?? meta?.remaining ?? undefined,
+      reset: meta?.reset ?? undefined,
+      plan,
+    })
+    return response
+  }
+
+  /**
+   * Get the remaining API quota tracked from responses and /me
+   *
+   * @param options.refresh Fetch the current user first to update the quota
+   */
+  async getQuotaStatus(
+    options: { refresh?: boolean } = {},
+  ): Promise<IQuotaStatus> {
+    if (options.refresh) {
+      await this.getCurrentUser()
+    }
+    return this.rateLimiter.getStatus()
   }
 }
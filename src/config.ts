@@ -24,3 +24,13 @@ export const NETWORK_TIMEZONE_OFFSETS: Record<NetworkCode, number> = {
 export function getNetworkTimezoneOffset(network: NetworkCode): number {
   return NETWORK_TIMEZONE_OFFSETS[network] * 60 * 60 * 1000 // Convert hours to milliseconds
 }
+
+/**
+ * Network regions available for each network
+ * AU covers both the NEM and WEM regions
+ */
+export const NETWORK_REGIONS: Record<NetworkCode, string[]> = {
+  NEM: ["NSW1", "QLD1", "SA1", "TAS1", "VIC1"],
+  WEM: ["WEM"],
+  AU: ["NSW1", "QLD1", "SA1", "TAS1", "VIC1", "WEM"],
+}
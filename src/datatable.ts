@@ -3,9 +3,21 @@
  * Provides a pandas/polars-like interface for time series data
  */
 
-import { createNetworkDate } from "./datetime"
-
-import type { INetworkTimeSeries } from "./types"
+import {
+  type Aggregation,
+  aggregate,
+  getDefaultAggregation,
+  isAggregation,
+} from "./aggregation"
+import {
+  createNetworkDate,
+  getIntervalStart,
+  getNetworkTimezone,
+} from "./datetime"
+import type { IColumnExpression } from "./expressions"
+import { type IRecord, RecordTable } from "./recordtable"
+
+import type { INetworkTimeSeries, NetworkCode, ResampleInterval } from "./types"
 
 export interface IDataTableRow {
   interval: Date
@@ -23,9 +35,77 @@ export interface IDescribeResult {
   max: number
 }
 
+/**
+ * What groupBy sets interval to: drop it from the rows, keep the first row's
+ * interval, or keep the earliest interval in the group. Dropping it returns a
+ * RecordTable, as DataTable rows always have an interval.
+ */
+export type GroupByInterval = "drop" | "first" | "start"
+
+export interface IGroupByOptions {
+  /** How to set the interval of grouped rows (default "first") */
+  interval?: GroupByInterval
+}
+
+export interface IResampleOptions {
+  /**
+   * Aggregation per metric. Metrics not listed are aggregated by unit: power
+   * and other rates are averaged, energy and emissions are summed, and price
+   * is weighted by demand when the table has it.
+   */
+  aggregations?: Record<string, Aggregation>
+  /**
+   * Timezone offset in hours that interval boundaries fall on. Defaults to
+   * the table's network time (NEM +10, WEM +8).
+   */
+  timezoneOffset?: number
+}
+
+export interface IPivotOptions {
+  /**
+   * Columns identifying each output row, which must include interval
+   * (default "interval")
+   */
+  index?: string | string[]
+  /** Column whose values become the new column names */
+  columns: string
+  /** Column or columns holding the values to spread */
+  values: string | string[]
+  /** How to combine rows with the same index and column value */
+  aggregation?: Aggregation
+}
+
+export interface IMeltOptions {
+  /** Columns to keep on every row (default interval and the groupings) */
+  id?: string[]
+  /** Columns to unpivot into rows (default every metric) */
+  values?: string[]
+  /** Name of the column holding the melted column names */
+  variable?: string
+  /** Name of the column holding the melted values */
+  value?: string
+}
+
+export interface IWithColumnOptions {
+  /** Unit to register the column with */
+  unit?: string
+  /** Add the column as a grouping rather than a metric */
+  grouping?: boolean
+}
+
+export interface IJoinOptions {
+  /** Columns to match rows on (default interval and the shared groupings) */
+  on?: string[]
+  /** Which unmatched rows to keep (default "inner") */
+  how?: "inner" | "left" | "outer"
+}
+
+// Rows grouped with interval "drop" have no interval
+type GroupedRow = Record<string, IDataTableRow[string]>
+
 interface IDataTableCache {
   sortedRows?: Map<string, IDataTableRow[]>
-  groupedRows?: Map<string, Map<string, IDataTableRow[]>>
+  groupedRows?: Map<string, GroupedRow[]>
   latestTimestamp?: number
   columnIndexes?: Map<string, Map<string | number | boolean, IDataTableRow[]>>
 }
@@ -36,15 +116,18 @@ export class DataTable {
   private metrics: Map<string, string>
   private cache: IDataTableCache = {}
   private rowsMap: Map<string, IDataTableRow>
+  private networkCode?: NetworkCode
 
   constructor(
     rows: IDataTableRow[],
     groupings: string[],
     metrics: Map<string, string>,
+    networkCode?: NetworkCode,
   ) {
     this.rows = rows
     this.groupings = groupings
     this.metrics = metrics
+    this.networkCode = networkCode
     this.rowsMap = new Map()
 
     // Create initial indexes
@@ -59,7 +142,12 @@ export class DataTable {
     const rows: IDataTableRow[] = []
     const groupings = data[0].groupings || []
     const metrics = new Map<string, string>()
-    const table = new DataTable(rows, groupings, metrics)
+    const table = new DataTable(
+      rows,
+      groupings,
+      metrics,
+      data[0].network_code as NetworkCode,
+    )
 
     // Create a map of all metrics and their units
     data.forEach((series) => {
@@ -180,6 +268,13 @@ export class DataTable {
     return this.metrics
   }
 
+  /**
+   * Get the network the data is from, if known
+   */
+  public getNetworkCode(): NetworkCode | undefined {
+    return this.networkCode
+  }
+
   /**
    * Get the latest timestamp in the data
    */
@@ -204,7 +299,12 @@ export class DataTable {
 
     // Fall back to regular filter for complex conditions
     const filteredRows = this.rows.filter(condition)
-    return new DataTable(filteredRows, this.groupings, this.metrics)
+    return new DataTable(
+      filteredRows,
+      this.groupings,
+      this.metrics,
+      this.networkCode,
+    )
   }
 
   private tryIndexFilter(
@@ -225,7 +325,12 @@ export class DataTable {
           value === true ? false : value === false ? true : value === 0 ? 1 : 0
 
         if (condition(testRow) && !condition(otherValues)) {
-          return new DataTable([...rows], this.groupings, this.metrics)
+          return new DataTable(
+            [...rows],
+            this.groupings,
+            this.metrics,
+            this.networkCode,
+          )
         }
       }
     }
@@ -259,108 +364,530 @@ export class DataTable {
       newRows,
       this.groupings.filter((g) => columns.includes(g)),
       newMetrics,
+      this.networkCode,
+    )
+  }
+
+  /**
+   * Add or replace a column computed from each row
+   *
+   * The column is registered as a metric with the given unit, the
+   * expression's unit or the unit it already had. Pass grouping to add it as
+   * a grouping column instead. The table is not modified; the returned table
+   * has its own indexes and caches.
+   *
+   * @example
+   * ```typescript
+   * table.withColumn("emission_intensity", emissionIntensity())
+   * table.withColumn("power_gw", (row) => (row.power as number) / 1000, {
+   *   unit: "GW",
+   * })
+   * ```
+   */
+  public withColumn(
+    name: string,
+    expression: IColumnExpression,
+    options: IWithColumnOptions = {},
+  ): DataTable {
+    const rows = this.rows.map((row) => ({
+      ...row,
+      [name]: expression(row),
+    }))
+
+    const groupings = [...this.groupings]
+    const metrics = new Map(this.metrics)
+    if (options.grouping || groupings.includes(name)) {
+      if (!groupings.includes(name)) groupings.push(name)
+      metrics.delete(name)
+    } else {
+      metrics.set(
+        name,
+        options.unit ??
+          expression.unit?.(this.metrics) ??
+          this.metrics.get(name) ??
+          "",
+      )
+    }
+
+    return new DataTable(rows, groupings, metrics, this.networkCode)
+  }
+
+  /**
+   * Add several computed metric columns, each able to use the ones before
+   *
+   * @example
+   * ```typescript
+   * table.assign({
+   *   emission_intensity: emissionIntensity(),
+   *   price: ratio("market_value", "energy"),
+   * })
+   * ```
+   */
+  public assign(columns: Record<string, IColumnExpression>): DataTable {
+    return Object.entries(columns).reduce<DataTable>(
+      (table, [name, expression]) => table.withColumn(name, expression),
+      this,
     )
   }
 
   /**
    * Group by specified columns and aggregate values
+   *
+   * Pass one aggregation to apply to every metric, or a map of column to
+   * aggregation to aggregate only those columns. Count columns get the unit
+   * "count"; other aggregated columns keep their unit.
+   *
+   * @example
+   * ```typescript
+   * table.groupBy(["network_region"], "mean")
+   * table.groupBy(["network_region"], {
+   *   price: "max",
+   *   energy: "sum",
+   *   power: { percentile: 90 },
+   * })
+   * ```
    */
   public groupBy(
     columns: string[],
-    aggregation: "sum" | "mean" = "sum",
-  ): DataTable {
-    const cacheKey = `${columns.join("_")}_${aggregation}`
-    const cachedGroups = this.cache.groupedRows?.get(cacheKey)
-    if (cachedGroups) {
-      return new DataTable(
-        Array.from(cachedGroups.values()).flat(),
-        columns,
-        this.metrics,
-      )
+    aggregation?: Aggregation | Record<string, Aggregation>,
+    options?: IGroupByOptions & { interval?: "first" | "start" },
+  ): DataTable
+  public groupBy(
+    columns: string[],
+    aggregation: Aggregation | Record<string, Aggregation>,
+    options: IGroupByOptions & { interval: "drop" },
+  ): RecordTable
+  public groupBy(
+    columns: string[],
+    aggregation: Aggregation | Record<string, Aggregation>,
+    options: IGroupByOptions,
+  ): DataTable | RecordTable
+  public groupBy(
+    columns: string[],
+    aggregation: Aggregation | Record<string, Aggregation> = "sum",
+    options: IGroupByOptions = {},
+  ): DataTable | RecordTable {
+    const intervalMode = options.interval ?? "first"
+    if (intervalMode === "drop" && columns.includes("interval")) {
+      throw new Error("Cannot drop interval when grouping by it")
+    }
+    const aggregations = new Map<string, Aggregation>(
+      isAggregation(aggregation)
+        ? Array.from(this.metrics.keys()).map((metric) => [metric, aggregation])
+        : Object.entries(aggregation),
+    )
+    const metrics = new Map(
+      Array.from(aggregations).map(([column, columnAggregation]) => [
+        column,
+        columnAggregation === "count"
+          ? "count"
+          : (this.metrics.get(column) ?? ""),
+      ]),
+    )
+    const toTable = (rows: GroupedRow[]) =>
+      intervalMode === "drop"
+        ? new RecordTable(rows as IRecord[])
+        : new DataTable(
+            rows as IDataTableRow[],
+            columns,
+            metrics,
+            this.networkCode,
+          )
+
+    const cacheKey = JSON.stringify([columns, aggregation, intervalMode])
+    const cachedRows = this.cache.groupedRows?.get(cacheKey)
+    if (cachedRows) {
+      return toTable([...cachedRows])
     }
 
     const groups = new Map<string, IDataTableRow[]>()
-    const groupKeyMap = new Map<string, Record<string, unknown>>()
-
-    // Single pass grouping and aggregation
     for (const row of this.rows) {
       const groupKey = columns.map((col) => `${col}:${row[col]}`).join("_")
-
-      if (!groups.has(groupKey)) {
-        groups.set(groupKey, [])
-        groupKeyMap.set(
-          groupKey,
-          columns.reduce(
-            (acc, col) => {
-              acc[col] = row[col]
-              return acc
-            },
-            {} as Record<string, unknown>,
-          ),
-        )
-      }
-
       const groupRows = groups.get(groupKey)
       if (groupRows) {
         groupRows.push(row)
+      } else {
+        groups.set(groupKey, [row])
       }
     }
 
-    // Efficient aggregation using pre-allocated arrays
-    const newRows: IDataTableRow[] = []
+    const newRows: GroupedRow[] = []
+    for (const groupRows of groups.values()) {
+      const newRow: GroupedRow = {
+        ...this.groupInterval(groupRows, intervalMode),
+      }
+      for (const column of columns) {
+        newRow[column] = groupRows[0][column]
+      }
+      for (const [column, columnAggregation] of aggregations) {
+        newRow[column] = aggregate(groupRows, column, columnAggregation)
+      }
+      newRows.push(newRow)
+    }
+
+    // Cache the results
+    if (!this.cache.groupedRows) {
+      this.cache.groupedRows = new Map()
+    }
+    this.cache.groupedRows.set(cacheKey, newRows)
+
+    return toTable(newRows)
+  }
+
+  private groupInterval(
+    rows: IDataTableRow[],
+    mode: GroupByInterval,
+  ): { interval?: Date } {
+    switch (mode) {
+      case "drop":
+        return {}
+      case "first":
+        return { interval: rows[0].interval }
+      case "start":
+        return {
+          interval: rows.reduce(
+            (start, row) => (row.interval < start ? row.interval : start),
+            rows[0].interval,
+          ),
+        }
+    }
+  }
+
+  /**
+   * Roll rows up to a coarser interval, keeping the grouping columns
+   *
+   * Intervals are bucketed in network time, so daily and monthly buckets
+   * start at midnight AEST for the NEM and AWST for the WEM. Each bucket is
+   * labelled with its start.
+   *
+   * @example
+   * ```typescript
+   * // Hourly mean power and total energy by fueltech group
+   * table.resample("1h")
+   *
+   * // Daily peak price instead of the demand weighted average
+   * table.resample("1d", { aggregations: { price: "max" } })
+   * ```
+   */
+  public resample(
+    interval: ResampleInterval,
+    options: IResampleOptions = {},
+  ): DataTable {
+    const offset =
+      options.timezoneOffset ?? getNetworkTimezone(this.networkCode ?? "NEM")
     const metricNames = Array.from(this.metrics.keys())
+    const aggregations = new Map(
+      metricNames.map((metric) => [
+        metric,
+        options.aggregations?.[metric] ??
+          getDefaultAggregation(metric, this.metrics),
+      ]),
+    )
 
-    for (const [groupKey, groupRows] of groups) {
-      const groupValues = groupKeyMap.get(groupKey)
-      if (!groupValues) continue
+    const buckets = new Map<string, IDataTableRow[]>()
+    const ordered = [...this.rows].sort(
+      (a, b) => a.interval.getTime() - b.interval.getTime(),
+    )
+    for (const row of ordered) {
+      // Key on every non-metric column, as facility rows carry unit columns
+      // that aren't groupings
+      const key = [
+        getIntervalStart(row.interval, interval, offset).toISOString(),
+        ...Object.keys(row)
+          .filter(
+            (column) => column !== "interval" && !this.metrics.has(column),
+          )
+          .sort()
+          .map((column) => `${column}:${row[column]}`),
+      ].join("_")
+      const bucketRows = buckets.get(key)
+      if (bucketRows) {
+        bucketRows.push(row)
+      } else {
+        buckets.set(key, [row])
+      }
+    }
 
+    const newRows: IDataTableRow[] = []
+    for (const bucketRows of buckets.values()) {
+      const first = bucketRows[0]
       const newRow: IDataTableRow = {
-        interval: groupRows[0].interval,
-        ...(groupValues as Record<string, unknown>),
+        interval: getIntervalStart(first.interval, interval, offset),
       }
+      for (const [column, value] of Object.entries(first)) {
+        if (column !== "interval" && !this.metrics.has(column)) {
+          newRow[column] = value
+        }
+      }
+      for (const [metric, aggregation] of aggregations) {
+        newRow[metric] = aggregate(bucketRows, metric, aggregation)
+      }
+      newRows.push(newRow)
+    }
 
-      // Pre-allocate arrays for metric values
-      const metricArrays = new Map<string, number[]>()
-      metricNames.forEach((metric) => {
-        metricArrays.set(metric, new Array(groupRows.length))
-      })
+    return new DataTable(
+      newRows,
+      this.groupings,
+      this.metrics,
+      this.networkCode,
+    )
+  }
 
-      // Single pass to collect all metric values
-      for (let i = 0; i < groupRows.length; i++) {
-        const row = groupRows[i]
-        metricNames.forEach((metric) => {
-          const value = row[metric] as number
-          const metricArray = metricArrays.get(metric)
-          if (value !== null && !Number.isNaN(value) && metricArray) {
-            metricArray[i] = value
-          }
-        })
+  /**
+   * Reshape long rows to wide rows with one column per value of a column
+   *
+   * Rows sharing the index and column value are combined with the
+   * aggregation (default "sum"), and missing combinations are null. With one
+   * values column the new columns are named after the column values;
+   * otherwise they are named `${value}_${column value}`. The new columns are
+   * registered as metrics with the unit of their values column.
+   *
+   * @example
+   * ```typescript
+   * // One row per interval with a power column per fueltech group
+   * table.pivot({ columns: "fueltech_group", values: "power" })
+   * ```
+   */
+  public pivot(options: IPivotOptions): DataTable {
+    const index = toArray(options.index ?? "interval")
+    if (!index.includes("interval")) {
+      throw new Error(
+        'The pivot index must include interval. Group with interval: "drop" to summarise across intervals.',
+      )
+    }
+    const values = toArray(options.values)
+    const aggregation = options.aggregation ?? "sum"
+
+    const columnValues = new Set<string>()
+    const groups = new Map<
+      string,
+      { row: IDataTableRow; cells: Map<string, IDataTableRow[]> }
+    >()
+    for (const row of this.rows) {
+      const columnValue = String(row[options.columns])
+      columnValues.add(columnValue)
+
+      const key = index.map((column) => indexKey(row[column])).join("_")
+      let group = groups.get(key)
+      if (!group) {
+        const indexRow: Record<string, IDataTableRow[string]> = {}
+        for (const column of index) indexRow[column] = row[column]
+        group = { row: indexRow as IDataTableRow, cells: new Map() }
+        groups.set(key, group)
+      }
+      const cell = group.cells.get(columnValue)
+      if (cell) {
+        cell.push(row)
+      } else {
+        group.cells.set(columnValue, [row])
       }
+    }
 
-      // Calculate aggregations
-      metricNames.forEach((metric) => {
-        const metricArray = metricArrays.get(metric)
-        if (metricArray) {
-          const values = metricArray.filter((v) => v !== undefined)
-          if (values.length > 0) {
-            const sum = values.reduce((a, b) => a + b, 0)
-            newRow[metric] = aggregation === "sum" ? sum : sum / values.length
-          } else {
-            newRow[metric] = null
-          }
-        }
-      })
+    const sortedValues = Array.from(columnValues).sort()
+    const name = (value: string, columnValue: string) =>
+      values.length === 1 ? columnValue : `${value}_${columnValue}`
+
+    const metrics = new Map<string, string>()
+    for (const value of values) {
+      for (const columnValue of sortedValues) {
+        metrics.set(name(value, columnValue), this.metrics.get(value) ?? "")
+      }
+    }
 
+    const newRows: IDataTableRow[] = []
+    for (const { row, cells } of groups.values()) {
+      const newRow = { ...row }
+      for (const value of values) {
+        for (const columnValue of sortedValues) {
+          const cell = cells.get(columnValue)
+          newRow[name(value, columnValue)] = cell
+            ? aggregate(cell, value, aggregation)
+            : null
+        }
+      }
       newRows.push(newRow)
     }
 
-    // Cache the results
-    if (!this.cache.groupedRows) {
-      this.cache.groupedRows = new Map()
+    return new DataTable(
+      newRows,
+      index.filter((column) => column !== "interval"),
+      metrics,
+      this.networkCode,
+    )
+  }
+
+  /**
+   * Reshape wide rows to long rows, the inverse of pivot
+   *
+   * Each value column of each row becomes a row holding the id columns, the
+   * column name in the variable column and the value in the value column.
+   * The value column's unit is the melted columns' unit when they share one.
+   *
+   * @example
+   * ```typescript
+   * wide.melt({ variable: "fueltech_group", value: "power" })
+   * ```
+   */
+  public melt(options: IMeltOptions = {}): DataTable {
+    const ids = options.id ?? ["interval", ...this.groupings]
+    const valueColumns = options.values ?? Array.from(this.metrics.keys())
+    const variable = options.variable ?? "variable"
+    const valueName = options.value ?? "value"
+
+    const newRows: IDataTableRow[] = []
+    for (const row of this.rows) {
+      for (const column of valueColumns) {
+        const newRow: Record<string, IDataTableRow[string]> = {}
+        for (const id of ids) newRow[id] = row[id]
+        newRow[variable] = column
+        newRow[valueName] = row[column] ?? null
+        newRows.push(newRow as IDataTableRow)
+      }
     }
-    this.cache.groupedRows.set(cacheKey, groups)
 
-    return new DataTable(newRows, columns, this.metrics)
+    const units = new Set(
+      valueColumns.map((column) => this.metrics.get(column) ?? ""),
+    )
+    return new DataTable(
+      newRows,
+      [...ids.filter((id) => id !== "interval"), variable],
+      new Map([[valueName, units.size === 1 ? [...units][0] : ""]]),
+      this.networkCode,
+    )
+  }
+
+  /**
+   * Join another table's columns onto this table's rows
+   *
+   * Rows match when every `on` column is equal. By default the tables are
+   * joined on interval and the groupings they share. Inner joins keep only
+   * matched rows, left joins keep every row of this table, and outer joins
+   * keep every row of both. Columns missing from a side are null. When
+   * interval isn't a join key, matched rows keep this table's interval.
+   *
+   * Throws when a column other than the join keys is in both tables, since
+   * its values would collide.
+   *
+   * @example
+   * ```typescript
+   * // Price and demand next to generation for each region and interval
+   * generation.join(market, { on: ["interval", "network_region"] })
+   * ```
+   */
+  public join(other: DataTable, options: IJoinOptions = {}): DataTable {
+    const on = options.on ?? [
+      "interval",
+      ...this.groupings.filter((column) => other.groupings.includes(column)),
+    ]
+    const how = options.how ?? "inner"
+
+    const leftColumns = this.getColumns().filter((c) => !on.includes(c))
+    const rightColumns = other.getColumns().filter((c) => !on.includes(c))
+    const shared = rightColumns.filter((column) => leftColumns.includes(column))
+    if (shared.length > 0) {
+      throw new Error(
+        `Cannot join tables: ${shared.join(", ")} in both tables. Select or rename them before joining.`,
+      )
+    }
+    const metrics = mergeMetrics([this.metrics, other.metrics])
+
+    const key = (row: IDataTableRow) =>
+      on.map((column) => indexKey(row[column])).join("_")
+    const nulls = (columns: string[]) =>
+      Object.fromEntries(columns.map((column) => [column, null]))
+
+    const rightRows = new Map<string, IDataTableRow[]>()
+    for (const row of other.rows) {
+      const rows = rightRows.get(key(row))
+      if (rows) {
+        rows.push(row)
+      } else {
+        rightRows.set(key(row), [row])
+      }
+    }
+
+    const matched = new Set<string>()
+    const newRows: IDataTableRow[] = []
+    for (const row of this.rows) {
+      const rowKey = key(row)
+      const matches = rightRows.get(rowKey)
+      if (matches) {
+        matched.add(rowKey)
+        for (const match of matches) {
+          newRows.push({ ...row, ...match, interval: row.interval })
+        }
+      } else if (how !== "inner") {
+        newRows.push({ ...row, ...nulls(rightColumns) })
+      }
+    }
+    if (how === "outer") {
+      for (const [rowKey, rows] of rightRows) {
+        if (matched.has(rowKey)) continue
+        for (const row of rows) newRows.push({ ...nulls(leftColumns), ...row })
+      }
+      newRows.sort((a, b) => a.interval.getTime() - b.interval.getTime())
+    }
+
+    return new DataTable(
+      newRows,
+      [
+        ...this.groupings,
+        ...other.groupings.filter((column) => !this.groupings.includes(column)),
+      ],
+      metrics,
+      this.networkCode ?? other.networkCode,
+    )
+  }
+
+  /**
+   * Stack the rows of several tables
+   *
+   * Groupings and metrics are combined, and columns a table doesn't have are
+   * null in its rows. Throws when a metric has a different unit in two of
+   * the tables.
+   *
+   * @example
+   * ```typescript
+   * DataTable.concat([nem, wem])
+   * ```
+   */
+  public static concat(tables: DataTable[]): DataTable {
+    const groupings = Array.from(
+      new Set(tables.flatMap((table) => table.groupings)),
+    )
+    const metrics = mergeMetrics(tables.map((table) => table.metrics))
+    const columns = [...groupings, ...metrics.keys()]
+
+    const rows = tables.flatMap((table) =>
+      table.rows.map((row) => {
+        const newRow = { ...row }
+        for (const column of columns) {
+          if (!(column in newRow)) newRow[column] = null
+        }
+        return newRow
+      }),
+    )
+    const networks = new Set(tables.map((table) => table.networkCode))
+
+    return new DataTable(
+      rows,
+      groupings,
+      metrics,
+      networks.size === 1 ? tables[0].networkCode : undefined,
+    )
+  }
+
+  /**
+   * Columns other than interval: groupings, metrics and any extra columns
+   */
+  private getColumns(): string[] {
+    const columns = new Set([...this.groupings, ...this.metrics.keys()])
+    for (const row of this.rows) {
+      for (const column of Object.keys(row)) {
+        if (column !== "interval") columns.add(column)
+      }
+    }
+    return Array.from(columns)
   }
 
   /**
@@ -370,7 +897,12 @@ export class DataTable {
     const cacheKey = `${columns.join("_")}_${ascending}`
     const cachedRows = this.cache.sortedRows?.get(cacheKey)
     if (cachedRows) {
-      return new DataTable([...cachedRows], this.groupings, this.metrics)
+      return new DataTable(
+        [...cachedRows],
+        this.groupings,
+        this.metrics,
+        this.networkCode,
+      )
     }
 
     const sortedRows = [...this.rows].sort((a, b) => {
@@ -394,7 +926,12 @@ export class DataTable {
     }
     this.cache.sortedRows.set(cacheKey, sortedRows)
 
-    return new DataTable(sortedRows, this.groupings, this.metrics)
+    return new DataTable(
+      sortedRows,
+      this.groupings,
+      this.metrics,
+      this.networkCode,
+    )
   }
 
   /**
@@ -469,6 +1006,33 @@ export class DataTable {
   }
 }
 
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value]
+}
+
+function indexKey(value: IDataTableRow[string]): string {
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+/**
+ * Merge metric unit maps, throwing when a metric has conflicting units
+ */
+function mergeMetrics(maps: Map<string, string>[]): Map<string, string> {
+  const merged = new Map<string, string>()
+  for (const metrics of maps) {
+    for (const [metric, unit] of metrics) {
+      const existing = merged.get(metric)
+      if (existing !== undefined && existing !== unit) {
+        throw new Error(
+          `Metric ${metric} has conflicting units: ${existing} and ${unit}`,
+        )
+      }
+      merged.set(metric, unit)
+    }
+  }
+  return merged
+}
+
 /**
  * Create a DataTable from NetworkTimeSeries responses
  */
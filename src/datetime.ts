@@ -9,7 +9,7 @@ import dayjs from "dayjs"
 import timezone from "dayjs/plugin/timezone"
 import utc from "dayjs/plugin/utc"
 
-import type { NetworkCode } from "./types"
+import type { NetworkCode, ResampleInterval } from "./types"
 
 dayjs.extend(utc)
 dayjs.extend(timezone)
@@ -137,3 +137,65 @@ export function createNetworkDate(isoString: string): Date {
   // The Date constructor already handles timezone-aware ISO strings correctly
   return new Date(isoString)
 }
+
+/**
+ * Round a time down to the start of its interval
+ *
+ * Weeks start on Monday, seasons in December and financial years in July.
+ *
+ * @param time Time in the timezone the interval boundaries fall in
+ * @param interval Interval to round to
+ * @returns Start of the interval containing the time
+ */
+export function floorInterval(
+  time: dayjs.Dayjs,
+  interval: ResampleInterval,
+): dayjs.Dayjs {
+  switch (interval) {
+    case "5m":
+      return time.minute(time.minute() - (time.minute() % 5)).startOf("minute")
+    case "30m":
+      return time.minute(time.minute() < 30 ? 0 : 30).startOf("minute")
+    case "1h":
+      return time.startOf("hour")
+    case "1d":
+      return time.startOf("day")
+    case "7d":
+      return time.startOf("day").subtract((time.day() + 6) % 7, "day")
+    case "1M":
+      return time.startOf("month")
+    case "3M":
+      return time.startOf("month").month(time.month() - (time.month() % 3))
+    case "season":
+      return time.startOf("month").subtract((time.month() + 1) % 3, "month")
+    case "1y":
+      return time.startOf("year")
+    case "fy":
+      return time.startOf("month").subtract((time.month() + 6) % 12, "month")
+  }
+}
+
+/**
+ * Get the start of the interval containing a date, with interval boundaries
+ * in network time
+ *
+ * @param date Date to bucket
+ * @param interval Interval to round to
+ * @param offsetHours Network timezone offset in hours
+ * @returns Start of the interval
+ *
+ * @example
+ * ```typescript
+ * // 13:30 UTC is 23:30 AEST, so the NEM day started at 14:00 UTC the day before
+ * getIntervalStart(new Date("2024-01-01T13:30:00Z"), "1d", 10)
+ * // Returns 2023-12-31T14:00:00.000Z
+ * ```
+ */
+export function getIntervalStart(
+  date: Date,
+  interval: ResampleInterval,
+  offsetHours: number,
+): Date {
+  const networkTime = dayjs.utc(date).utcOffset(offsetHours * 60)
+  return floorInterval(networkTime, interval).toDate()
+}
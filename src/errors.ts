@@ -0,0 +1,216 @@
+/**
+ * Error types for the OpenElectricity API client
+ *
+ * Every API failure extends OpenElectricityError so callers can catch all
+ * API errors with a single instanceof check, or narrow on the subclass.
+ */
+
+import type {
+  IAPIErrorResponse,
+  ISchemaIssue,
+  IValidationErrorDetail,
+} from "./types"
+
+export class OpenElectricityError extends Error {
+  constructor(
+    message: string,
+    public response?: IAPIErrorResponse,
+    public statusCode?: number,
+    public details?: IValidationErrorDetail | Record<string, unknown>,
+  ) {
+    super(message)
+    this.name = "OpenElectricityError"
+  }
+}
+
+export class NoDataFound extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "NoDataFound"
+  }
+}
+
+/**
+ * The API key is missing, invalid or revoked (401)
+ */
+export class AuthenticationError extends OpenElectricityError {
+  constructor(
+    message: string,
+    response?: IAPIErrorResponse,
+    statusCode = 401,
+    details?: IValidationErrorDetail | Record<string, unknown>,
+  ) {
+    super(message, response, statusCode, details)
+    this.name = "AuthenticationError"
+  }
+}
+
+/**
+ * The API key is valid but not allowed to access the resource (403)
+ */
+export class PermissionDeniedError extends OpenElectricityError {
+  constructor(
+    message: string,
+    response?: IAPIErrorResponse,
+    statusCode = 403,
+    details?: IValidationErrorDetail | Record<string, unknown>,
+  ) {
+    super(message, response, statusCode, details)
+    this.name = "PermissionDeniedError"
+  }
+}
+
+/**
+ * Too many requests or the plan quota is exhausted (429)
+ */
+export class RateLimitError extends OpenElectricityError {
+  /** Delay requested by the API before retrying, in milliseconds */
+  public retryAfterMs?: number
+  /** Remaining request quota reported by the API */
+  public remaining?: number
+
+  constructor(
+    message: string,
+    response?: IAPIErrorResponse,
+    statusCode = 429,
+    details?: IValidationErrorDetail | Record<string, unknown>,
+    rateLimit: { retryAfterMs?: number; remaining?: number } = {},
+  ) {
+    super(message, response, statusCode, details)
+    this.name = "RateLimitError"
+    this.retryAfterMs = rateLimit.retryAfterMs
+    this.remaining = rateLimit.remaining
+  }
+}
+
+/**
+ * The request parameters were rejected (400/422)
+ */
+export class ValidationError extends OpenElectricityError {
+  public invalid_metrics?: string[]
+  public supported_metrics?: string[]
+  public hint?: string
+
+  constructor(
+    message: string,
+    response?: IAPIErrorResponse,
+    statusCode = 400,
+    details?: IValidationErrorDetail | Record<string, unknown>,
+  ) {
+    super(message, response, statusCode, details)
+    this.name = "ValidationError"
+
+    const detail = (details ?? {}) as IValidationErrorDetail
+    this.invalid_metrics = detail.invalid_metrics
+    this.supported_metrics = detail.supported_metrics
+    this.hint = detail.hint
+  }
+}
+
+/**
+ * The API failed to process a valid request (5xx)
+ */
+export class ServerError extends OpenElectricityError {
+  constructor(
+    message: string,
+    response?: IAPIErrorResponse,
+    statusCode = 500,
+    details?: IValidationErrorDetail | Record<string, unknown>,
+  ) {
+    super(message, response, statusCode, details)
+    this.name = "ServerError"
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class RequestTimeoutError extends OpenElectricityError {
+  constructor(
+    message: string,
+    public timeoutMs?: number,
+  ) {
+    super(message)
+    this.name = "RequestTimeoutError"
+  }
+}
+
+/**
+ * The request was cancelled through an AbortSignal
+ */
+export class AbortError extends OpenElectricityError {
+  constructor(message = "Request was aborted") {
+    super(message)
+    this.name = "AbortError"
+  }
+}
+
+/**
+ * A response did not match the expected schema (strict mode only)
+ */
+export class ResponseSchemaError extends OpenElectricityError {
+  constructor(
+    message: string,
+    public issues: ISchemaIssue[],
+  ) {
+    const listed = issues
+      .slice(0, 10)
+      .map(
+        (issue) =>
+          `${issue.path || "(root)"}: expected ${issue.expected}, received ${issue.received}`,
+      )
+    if (issues.length > listed.length) {
+      listed.push(`and ${issues.length - listed.length} more`)
+    }
+    super(`${message}: ${listed.join("; ")}`)
+    this.name = "ResponseSchemaError"
+  }
+}
+
+/**
+ * A replayed request has no recorded fixture
+ */
+export class FixtureNotFoundError extends OpenElectricityError {
+  constructor(
+    message: string,
+    public key: string,
+  ) {
+    super(message)
+    this.name = "FixtureNotFoundError"
+  }
+}
+
+/**
+ * Create the most specific error for an HTTP status code
+ *
+ * @param message Error message
+ * @param statusCode HTTP status code of the response
+ * @param response Parsed API error response, if any
+ * @param details Error details from the response body
+ * @param rateLimit Retry-After and remaining quota, used for 429 responses
+ * @returns An OpenElectricityError or one of its subclasses
+ */
+export function createAPIError(
+  message: string,
+  statusCode: number,
+  response?: IAPIErrorResponse,
+  details?: IValidationErrorDetail | Record<string, unknown>,
+  rateLimit?: { retryAfterMs?: number; remaining?: number },
+): OpenElectricityError {
+  if (statusCode === 401) {
+    return new AuthenticationError(message, response, statusCode, details)
+  }
+  if (statusCode === 403) {
+    return new PermissionDeniedError(message, response, statusCode, details)
+  }
+  if (statusCode === 429) {
+    return new RateLimitError(message, response, statusCode, details, rateLimit)
+  }
+  if (statusCode === 400 || statusCode === 422) {
+    return new ValidationError(message, response, statusCode, details)
+  }
+  if (statusCode >= 500) {
+    return new ServerError(message, response, statusCode, details)
+  }
+  return new OpenElectricityError(message, response, statusCode, details)
+}
@@ -0,0 +1,126 @@
+/**
+ * Column expressions for DataTable.withColumn
+ *
+ * Helpers build common derived metrics from other columns. Each carries a
+ * unit derived from the units of its inputs, which withColumn registers in
+ * the table's metrics.
+ */
+
+import type { IDataTableRow } from "./datatable"
+
+export type ColumnValue = IDataTableRow[string]
+
+/**
+ * Compute a column value from a row, optionally with the unit of the result
+ */
+export interface IColumnExpression {
+  (row: IDataTableRow): ColumnValue
+  /** Unit of the result given the table's metric units */
+  unit?: (metrics: Map<string, string>) => string
+}
+
+function expression(
+  evaluate: (row: IDataTableRow) => ColumnValue,
+  unit: (metrics: Map<string, string>) => string,
+): IColumnExpression {
+  return Object.assign(evaluate, { unit })
+}
+
+function numeric(value: ColumnValue | undefined): number | null {
+  return typeof value === "number" && !Number.isNaN(value) ? value : null
+}
+
+function unitOf(metrics: Map<string, string>, column: string): string {
+  return metrics.get(column) ?? ""
+}
+
+/**
+ * Divide one column by another, null when either is missing or the
+ * denominator is zero
+ *
+ * @example
+ * ```typescript
+ * // $ / MWh
+ * table.withColumn("average_price", ratio("market_value", "energy"))
+ * ```
+ */
+export function ratio(
+  numerator: string,
+  denominator: string,
+): IColumnExpression {
+  return expression(
+    (row) => {
+      const top = numeric(row[numerator])
+      const bottom = numeric(row[denominator])
+      return top === null || bottom === null || bottom === 0
+        ? null
+        : top / bottom
+    },
+    (metrics) =>
+      `${unitOf(metrics, numerator)}/${unitOf(metrics, denominator)}`,
+  )
+}
+
+/**
+ * One column as a percentage of another
+ *
+ * @example
+ * ```typescript
+ * table.withColumn("renewable_share", percentage("renewable", "energy"))
+ * ```
+ */
+export function percentage(part: string, total: string): IColumnExpression {
+  const share = ratio(part, total)
+  return expression(
+    (row) => {
+      const value = share(row)
+      return value === null ? null : (value as number) * 100
+    },
+    () => "%",
+  )
+}
+
+/**
+ * Sum several columns, treating missing values as zero unless all are
+ * missing
+ */
+export function total(...columns: string[]): IColumnExpression {
+  return expression(
+    (row) => {
+      const values = columns
+        .map((column) => numeric(row[column]))
+        .filter((value) => value !== null)
+      return values.length === 0 ? null : values.reduce((a, b) => a + b, 0)
+    },
+    (metrics) => unitOf(metrics, columns[0]),
+  )
+}
+
+/**
+ * Subtract one column from another, null when either is missing
+ *
+ * @example
+ * ```typescript
+ * table.withColumn("net_imports", difference("flow_imports", "flow_exports"))
+ * ```
+ */
+export function difference(a: string, b: string): IColumnExpression {
+  return expression(
+    (row) => {
+      const left = numeric(row[a])
+      const right = numeric(row[b])
+      return left === null || right === null ? null : left - right
+    },
+    (metrics) => unitOf(metrics, a),
+  )
+}
+
+/**
+ * Emissions per unit of energy in tCO2e/MWh
+ */
+export function emissionIntensity(
+  emissions = "emissions",
+  energy = "energy",
+): IColumnExpression {
+  return expression(ratio(emissions, energy), () => "tCO2e/MWh")
+}
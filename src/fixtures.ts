@@ -0,0 +1,198 @@
+/**
+ * Record and replay API fixtures
+ *
+ * A recording fetch saves every request/response pair to a JSON fixture file
+ * with the API key scrubbed, and a replaying fetch serves them back without
+ * touching the network, so test suites can run offline and deterministically.
+ * Node only, imported from "openelectricity/node".
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
+
+import { getCacheKey } from "./cache"
+import { FixtureNotFoundError } from "./errors"
+import type { FetchFunction } from "./middleware"
+import { REDACTED } from "./utils"
+
+export type FixtureMode = "record" | "replay"
+
+export interface IFixtureOptions {
+  /** Record live responses or replay recorded ones */
+  mode: FixtureMode
+  /** Path of the JSON fixture file */
+  path: string
+}
+
+export interface IFixture {
+  request: {
+    method: string
+    /** Path and query, relative to the API origin */
+    url: string
+  }
+  response: {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    body: string
+  }
+}
+
+export interface IFixtureFile {
+  version: 1
+  fixtures: IFixture[]
+}
+
+// Response headers that describe the payload or quota, the rest are dropped
+const RECORDED_HEADERS = [
+  "content-type",
+  "retry-after",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+]
+
+/**
+ * Build the key a request is matched on: method, path and sorted query
+ */
+export function getFixtureKey(method: string, url: string): string {
+  const { pathname, search } = new URL(getCacheKey(url), "http://fixture")
+  return `${method.toUpperCase()} ${pathname}${search}`
+}
+
+function getApiKey(init: RequestInit): string | undefined {
+  const headers = new Headers(init.headers)
+  return headers.get("Authorization")?.replace(/^Bearer\s+/i, "") || undefined
+}
+
+function scrub(value: string, secret: string | undefined): string {
+  return secret ? value.split(secret).join(REDACTED) : value
+}
+
+export async function readFixtureFile(path: string): Promise<IFixture[]> {
+  try {
+    const file = JSON.parse(await readFile(path, "utf8")) as IFixtureFile
+    return file.fixtures
+  } catch (error) {
+    if ((error as { code?: string }).code === "ENOENT") return []
+    throw error
+  }
+}
+
+async function writeFixtureFile(
+  path: string,
+  fixtures: IFixture[],
+): Promise<void> {
+  const file: IFixtureFile = { version: 1, fixtures }
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(file, null, 2)}\n`)
+}
+
+/**
+ * Create a fetch that calls through to the API and saves every exchange to the
+ * fixture file, replacing any fixtures previously recorded there
+ */
+export function createRecordingFetch(
+  path: string,
+  fetchFn: FetchFunction,
+): FetchFunction {
+  const fixtures: IFixture[] = []
+  let saving: Promise<void> = Promise.resolve()
+
+  return async (url, init = {}) => {
+    const response = await fetchFn(url, init)
+    const secret = getApiKey(init)
+    const body = await response.text()
+
+    const headers: Record<string, string> = {}
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers?.get(name)
+      if (value !== null && value !== undefined) headers[name] = value
+    }
+
+    const { pathname, search } = new URL(url, "http://fixture")
+    fixtures.push({
+      request: {
+        method: (init.method ?? "GET").toUpperCase(),
+        url: scrub(`${pathname}${search}`, secret),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: scrub(body, secret),
+      },
+    })
+
+    // Write in order so concurrent requests can't interleave partial files
+    saving = saving.then(() => writeFixtureFile(path, fixtures))
+    await saving
+
+    // The body has been read, so hand back an unread copy
+    return new Response(body || null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  }
+}
+
+/**
+ * Create a fetch that serves responses from the fixture file
+ *
+ * Repeated requests are served in recorded order, repeating the last match
+ * once they run out.
+ *
+ * @throws FixtureNotFoundError when a request has no recorded fixture
+ */
+export function createReplayFetch(path: string): FetchFunction {
+  let loading: Promise<Map<string, IFixture[]>> | undefined
+  const served = new Map<string, number>()
+
+  const load = async () => {
+    const byKey = new Map<string, IFixture[]>()
+    for (const fixture of await readFixtureFile(path)) {
+      const key = getFixtureKey(fixture.request.method, fixture.request.url)
+      byKey.set(key, [...(byKey.get(key) ?? []), fixture])
+    }
+    return byKey
+  }
+
+  return async (url, init = {}) => {
+    loading ??= load()
+    const fixtures = await loading
+    const key = getFixtureKey(init.method ?? "GET", url)
+    const matches = fixtures.get(key)
+    if (!matches) {
+      throw new FixtureNotFoundError(
+        `No fixture recorded for ${key} in ${path}`,
+        key,
+      )
+    }
+
+    const index = served.get(key) ?? 0
+    served.set(key, index + 1)
+    const { response } = matches[Math.min(index, matches.length - 1)]
+    return new Response(response.body || null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  }
+}
+
+/**
+ * Create the recording or replaying fetch for the fixture mode, to pass as the
+ * client's `fetch` option
+ *
+ * @param fetchFn The fetch to record from (defaults to the global fetch)
+ */
+export function withFixtures(
+  options: IFixtureOptions,
+  // eslint-disable-next-line no-undef
+  fetchFn: FetchFunction = (url, init) => fetch(url, init),
+): FetchFunction {
+  return options.mode === "record"
+    ? createRecordingFetch(options.path, fetchFn)
+    : createReplayFetch(options.path)
+}
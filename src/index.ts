@@ -22,24 +22,33 @@ export type {
   DataSecondaryGrouping,
   // API Response Types
   IAPIResponse,
+  IChunkOptions,
+  IFacility,
+  IFacilityDetailResponse,
   // Request Parameter Types
   IFacilityPollutionParams,
   IFacilityTimeSeriesParams,
+  IIterateOptions,
   IMarketTimeSeriesParams,
   IMetricMetadata,
   IMetricsResponse,
   INetworkTimeSeries,
   INetworkTimeSeriesParams,
+  IRequestOptions,
+  ISchemaIssue,
   // Response Types
   ITimeSeriesResponse,
   ITimeSeriesResult,
   IUser,
   IUserMeta,
+  IUserRateLimit,
   IValidationErrorDetail,
   MarketMetric,
   Metric,
+  MetricEndpoint,
   // Network and Data Types
   NetworkCode,
+  ResampleInterval,
   UnitDispatchType,
   UnitFueltechGroupType,
   UnitFueltechType,
@@ -48,11 +57,115 @@ export type {
   UserPlan,
 } from "./types"
 
+// Export types generated from the OpenAPI spec
+export type * as OpenAPI from "./openapi"
+
+// Export retry policy
+export type { IRetryOptions } from "./retry"
+export { DEFAULT_RETRY_OPTIONS } from "./retry"
+
+// Export parameter validation options
+export type { IValidationOptions } from "./validation"
+
+// Export metric catalog
+export { MetricsCatalog } from "./metrics"
+
+// Export middleware types
+export type {
+  FetchFunction,
+  IMiddleware,
+  IRequestContext,
+  MiddlewareResult,
+} from "./middleware"
+
+// Export response caches
+export type { ICacheStore } from "./cache"
+export {
+  CACHE_TTL_BY_INTERVAL,
+  getCacheKey,
+  getCacheTtl,
+  MemoryCache,
+} from "./cache"
+
+// Export live subscriptions
+export type {
+  ISubscribeOptions,
+  ISubscription,
+  ISubscriptionUpdate,
+} from "./subscription"
+
+// Export fixture types, recording and replay are in openelectricity/node
+export type {
+  FixtureMode,
+  IFixture,
+  IFixtureFile,
+  IFixtureOptions,
+} from "./fixtures"
+
+// Export synthetic data generation
+export type {
+  ISyntheticFacilityOptions,
+  ISyntheticNetworkOptions,
+  ISyntheticRangeOptions,
+} from "./synthetic"
+export {
+  generateFacilityTimeSeries,
+  generateNetworkTimeSeries,
+  getSyntheticFacilities,
+} from "./synthetic"
+
+// Export logging
+export type { ILogger, LogFields, LogLevel } from "./utils"
+export { createConsoleLogger } from "./utils"
+
+// Export instrumentation and tracing
+export type {
+  IInstrumentation,
+  IRequestEndEvent,
+  IRequestEvent,
+  IRetryEvent,
+  TraceContextOption,
+} from "./instrumentation"
+export { createTraceparent, getEndpoint } from "./instrumentation"
+
+// Export rate limiting
+export type {
+  IQuotaStatus,
+  IRateLimitOptions,
+  LowQuotaPolicy,
+} from "./ratelimit"
+export { TokenBucket } from "./ratelimit"
+
+// Export network configuration
+export { NETWORK_REGIONS } from "./config"
+
+// Export date range chunking helpers
+export { MAX_DAYS_PER_REQUEST, splitDateRange } from "./chunking"
+
 // Export DataTable types
-export type { IDataTableRow, IDescribeResult } from "./datatable"
+export type {
+  GroupByInterval,
+  IDataTableRow,
+  IDescribeResult,
+  IGroupByOptions,
+  IJoinOptions,
+  IMeltOptions,
+  IPivotOptions,
+  IResampleOptions,
+  IWithColumnOptions,
+} from "./datatable"
+export type { Aggregation } from "./aggregation"
+export type { ColumnValue, IColumnExpression } from "./expressions"
+export {
+  difference,
+  emissionIntensity,
+  percentage,
+  ratio,
+  total,
+} from "./expressions"
 
-// Export DataTable class
-export { DataTable } from "./datatable"
+// Export DataTable class and factory
+export { createDataTable, DataTable } from "./datatable"
 
 // Export datetime utilities
 export {
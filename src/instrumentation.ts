@@ -0,0 +1,130 @@
+/**
+ * Request instrumentation for metrics and tracing
+ *
+ * Hooks receive an event when each API request starts and ends, and before
+ * each retry, with the templated endpoint so they can be used as low
+ * cardinality metric labels. W3C trace context can be added to outgoing
+ * requests so they appear in distributed traces.
+ */
+
+import type { ILogger } from "./utils"
+
+export interface IRequestEvent {
+  /** Path with parameters templated, e.g. /data/network/{network_code} */
+  endpoint: string
+  url: string
+  method: string
+  /** The traceparent header sent, when trace context is enabled */
+  traceparent?: string
+}
+
+export interface IRequestEndEvent extends IRequestEvent {
+  /** HTTP status of the final attempt, not set for cache hits or network errors */
+  status?: number
+  durationMs: number
+  /** Size of the response body in bytes, when known */
+  bytes?: number
+  /** Number of attempts retried before the final one */
+  retries: number
+  /** Whether the response was served from the cache */
+  cacheHit: boolean
+  /** The error the request failed with, if any */
+  error?: unknown
+}
+
+export interface IRetryEvent extends IRequestEvent {
+  /** The attempt that failed (1-based) */
+  attempt: number
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number
+  /** HTTP status of the failed attempt, if it got a response */
+  status?: number
+  /** The error the attempt failed with, if it didn't get a response */
+  error?: unknown
+}
+
+export interface IInstrumentation {
+  /** Called when a request starts, before any cache lookup */
+  onRequestStart?: (event: IRequestEvent) => void
+  /** Called when a request finishes, whether it succeeded or failed */
+  onRequestEnd?: (event: IRequestEndEvent) => void
+  /** Called before each retry */
+  onRetry?: (event: IRetryEvent) => void
+}
+
+/**
+ * Trace context propagation: true starts a new trace for every request, or a
+ * function returns the traceparent of the active span so requests join its
+ * trace (e.g. from OpenTelemetry's propagation API)
+ */
+export type TraceContextOption = boolean | (() => string | undefined)
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+// Path segments that hold parameters, by the segments before them
+const ENDPOINT_TEMPLATES: [RegExp, string][] = [
+  [
+    /^\/data\/facility\/[^/]+\/[^/]+$/,
+    "/data/facility/{network_code}/{facility_code}",
+  ],
+  [/^\/data\/network\/[^/]+$/, "/data/network/{network_code}"],
+  [/^\/data\/facilities\/[^/]+$/, "/data/facilities/{network_code}"],
+  [/^\/market\/network\/[^/]+$/, "/market/network/{network_code}"],
+]
+
+/**
+ * Template the parameters in a request path and drop the query
+ */
+export function getEndpoint(path: string): string {
+  const [pathname] = path.split("?")
+  for (const [pattern, template] of ENDPOINT_TEMPLATES) {
+    if (pattern.test(pathname)) return template
+  }
+  return pathname
+}
+
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes)
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    crypto.getRandomValues(values)
+  } else {
+    for (let index = 0; index < bytes; index++) {
+      values[index] = Math.floor(Math.random() * 256)
+    }
+  }
+  const hex = Array.from(values, (value) => value.toString(16).padStart(2, "0"))
+  // All zero IDs are invalid
+  return /^0+$/.test(hex.join("")) ? randomHex(bytes) : hex.join("")
+}
+
+/**
+ * Create a traceparent header for a new span, continuing the parent's trace
+ * when a valid parent traceparent is given
+ */
+export function createTraceparent(parent?: string): string {
+  const match = parent ? TRACEPARENT.exec(parent.trim().toLowerCase()) : null
+  const traceId = match ? match[1] : randomHex(16)
+  const flags = match ? match[3] : "01"
+  return `00-${traceId}-${randomHex(8)}-${flags}`
+}
+
+/**
+ * Call a hook, logging instead of throwing if it fails so instrumentation
+ * can never break a request
+ */
+export function emit<K extends keyof IInstrumentation>(
+  instrumentation: IInstrumentation | undefined,
+  hook: K,
+  event: Parameters<NonNullable<IInstrumentation[K]>>[0],
+  logger: ILogger,
+): void {
+  const handler = instrumentation?.[hook] as
+    | ((event: Parameters<NonNullable<IInstrumentation[K]>>[0]) => void)
+    | undefined
+  if (!handler) return
+  try {
+    handler(event)
+  } catch (error) {
+    logger.warn(`Instrumentation ${hook} hook failed`, { error })
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Metric catalog for the OpenElectricity API
+ *
+ * Loads metric metadata from the /metrics endpoint once and uses it to
+ * describe metrics and validate metric names before making data requests.
+ */
+
+import { ValidationError } from "./errors"
+import type { IMetricMetadata, IMetricsResponse, MetricEndpoint } from "./types"
+
+export class MetricsCatalog {
+  private pending?: Promise<IMetricsResponse>
+
+  constructor(private loader: () => Promise<IMetricsResponse>) {}
+
+  /**
+   * Get the metrics response, loading it on first use
+   */
+  public async load(): Promise<IMetricsResponse> {
+    if (!this.pending) {
+      this.pending = this.loader().catch((error) => {
+        // Allow the next call to try again
+        this.pending = undefined
+        throw error
+      })
+    }
+    return this.pending
+  }
+
+  /**
+   * Discard the loaded metrics so the next call fetches them again
+   */
+  public reset(): void {
+    this.pending = undefined
+  }
+
+  /**
+   * Get the names of all supported metrics, optionally for a single endpoint
+   */
+  public async list(endpoint?: MetricEndpoint): Promise<string[]> {
+    const response = await this.load()
+    return endpoint
+      ? response.endpoints[endpoint]
+      : Object.keys(response.metrics)
+  }
+
+  /**
+   * Get the unit, precision, description and default aggregation for a metric
+   *
+   * @param name The metric name, e.g. "curtailment_wind"
+   * @throws ValidationError if the metric is not known to the API
+   */
+  public async describe(name: string): Promise<IMetricMetadata> {
+    const response = await this.load()
+    const metadata = response.metrics[name]
+    if (!metadata) {
+      const supported = Object.keys(response.metrics)
+      throw new ValidationError(`Unknown metric: ${name}`, undefined, 400, {
+        invalid_metrics: [name],
+        supported_metrics: supported,
+        hint: "Use client.metrics.list() to see the available metrics",
+      })
+    }
+    return metadata
+  }
+
+  /**
+   * Check whether a metric is supported, optionally by a specific endpoint
+   */
+  public async isSupported(
+    name: string,
+    endpoint?: MetricEndpoint,
+  ): Promise<boolean> {
+    return (await this.list(endpoint)).includes(name)
+  }
+
+  /**
+   * Validate metric names for an endpoint before making a request
+   *
+   * @param metrics Metric names to validate
+   * @param endpoint The endpoint the metrics will be requested from
+   * @throws ValidationError listing the invalid and supported metrics
+   */
+  public async validate(
+    metrics: string[],
+    endpoint: MetricEndpoint,
+  ): Promise<void> {
+    const supported = await this.list(endpoint)
+    const invalid = metrics.filter((metric) => !supported.includes(metric))
+    if (invalid.length > 0) {
+      const hint =
+        endpoint === "market"
+          ? "Use getNetworkData for data metrics"
+          : "Use getMarket for market metrics"
+      throw new ValidationError(
+        `Invalid metrics for ${endpoint} endpoint: ${invalid.join(", ")} (${hint})`,
+        undefined,
+        400,
+        {
+          invalid_metrics: invalid,
+          supported_metrics: supported,
+          requested_metrics: metrics,
+          hint,
+        },
+      )
+    }
+  }
+}
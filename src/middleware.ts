@@ -0,0 +1,103 @@
+/**
+ * Request middleware for the OpenElectricity API client
+ *
+ * Middleware hooks run around every HTTP attempt made by the client, in the
+ * order they were registered. They can modify the outgoing request, inspect or
+ * replace the response, and recover from fetch errors.
+ */
+
+/**
+ * A fetch compatible function used to perform HTTP requests
+ */
+export type FetchFunction = (
+  url: string,
+  init?: RequestInit,
+) => Promise<Response>
+
+/**
+ * Hooks return undefined to continue, or a Response to use instead
+ */
+export type MiddlewareResult =
+  | Response
+  | undefined
+  | Promise<Response | undefined>
+
+/**
+ * A middleware hook. Hooks that only inspect or modify the request can also
+ * return nothing.
+ */
+type MiddlewareHook<Args extends unknown[]> =
+  | ((...args: Args) => MiddlewareResult)
+  | ((...args: Args) => void)
+
+export interface IRequestContext {
+  /** Full request URL, may be rewritten by onRequest */
+  url: string
+  /** Request init, headers are always a plain object */
+  init: RequestInit & { headers: Record<string, string> }
+  /** Attempt number for this request (1-based) */
+  attempt: number
+}
+
+export interface IMiddleware {
+  /**
+   * Called before each attempt. Mutate the context to change the request, or
+   * return a Response to skip the network call entirely.
+   */
+  onRequest?: MiddlewareHook<[context: IRequestContext]>
+  /**
+   * Called with each response. Return a Response to replace it.
+   */
+  onResponse?: MiddlewareHook<[response: Response, context: IRequestContext]>
+  /**
+   * Called when fetch throws. Return a Response to recover, otherwise the
+   * error is rethrown (and may be retried).
+   */
+  onError?: MiddlewareHook<[error: unknown, context: IRequestContext]>
+}
+
+/**
+ * Perform a single fetch through the middleware chain
+ *
+ * @param fetchFn The fetch implementation
+ * @param middleware Middleware in registration order
+ * @param context The request context, mutable by onRequest hooks
+ * @returns The (possibly replaced) response
+ */
+export async function fetchWithMiddleware(
+  fetchFn: FetchFunction,
+  middleware: IMiddleware[],
+  context: IRequestContext,
+): Promise<Response> {
+  let response: Response | undefined
+
+  for (const { onRequest } of middleware) {
+    const result = await onRequest?.(context)
+    if (result) {
+      response = result
+      break
+    }
+  }
+
+  if (!response) {
+    try {
+      response = await fetchFn(context.url, context.init)
+    } catch (error) {
+      for (const { onError } of middleware) {
+        const result = await onError?.(error, context)
+        if (result) {
+          response = result
+          break
+        }
+      }
+      if (!response) throw error
+    }
+  }
+
+  let result: Response = response
+  for (const { onResponse } of middleware) {
+    result = (await onResponse?.(result, context)) || result
+  }
+
+  return result
+}
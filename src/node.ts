@@ -0,0 +1,65 @@
+/**
+ * Node.js only helpers that read and write files
+ *
+ * Kept out of the main entry so browser bundles don't pull in node: modules.
+ * Imported from "openelectricity/node".
+ */
+
+import { createHash } from "node:crypto"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+
+import { type ICacheEntry, type ICacheStore, isExpired } from "./cache"
+
+export {
+  createRecordingFetch,
+  createReplayFetch,
+  getFixtureKey,
+  withFixtures,
+} from "./fixtures"
+
+/**
+ * Filesystem cache storing one JSON file per request
+ */
+export class FileSystemCache implements ICacheStore {
+  private directory: string
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory
+  }
+
+  private getPath(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex")
+    return join(this.directory, `${hash}.json`)
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const path = this.getPath(key)
+
+    let entry: ICacheEntry
+    try {
+      entry = JSON.parse(await readFile(path, "utf8")) as ICacheEntry
+    } catch {
+      return undefined
+    }
+
+    if (isExpired(entry)) {
+      await rm(path, { force: true })
+      return undefined
+    }
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    const entry: ICacheEntry = {
+      value,
+      expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs,
+    }
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(this.getPath(key), JSON.stringify({ key, ...entry }))
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.getPath(key), { force: true })
+  }
+}
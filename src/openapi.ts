@@ -0,0 +1,180 @@
+/**
+ * Types generated from docs/openapi.json (API v4.0)
+ *
+ * Do not edit by hand, run `bun run generate:types` instead.
+ */
+
+export interface APIV4ResponseSchema {
+  version?: string
+  created_at?: string
+  success?: boolean
+  error?: string | null
+  data?: unknown[]
+  total_records?: number | null
+}
+
+export interface HTTPValidationError {
+  detail?: ValidationError[]
+}
+
+export type Interval =
+  | "5m"
+  | "1h"
+  | "1d"
+  | "7d"
+  | "1M"
+  | "3M"
+  | "season"
+  | "1y"
+  | "fy"
+
+export type Metric =
+  | "power"
+  | "energy"
+  | "price"
+  | "market_value"
+  | "demand"
+  | "demand_energy"
+  | "emissions"
+  | "renewable_proportion"
+
+export type OpenNEMRoles = "admin" | "pro" | "academic" | "user" | "anonymous"
+
+export interface OpenNEMUser {
+  id: string
+  full_name?: string | null
+  email?: string | null
+  owner_id?: string | null
+  plan?: string | null
+  rate_limit?: OpenNEMUserRateLimit | null
+  unkey_meta?: Record<string, unknown> | null
+  roles?: OpenNEMRoles[]
+  meta?: OpennemAPIRequestMeta | null
+}
+
+export interface OpenNEMUserRateLimit {
+  limit: number
+  remaining: number
+  reset: string | number
+}
+
+export interface OpennemAPIRequestMeta {
+  remaining?: number | null
+  reset?: string | null
+}
+
+export interface OpennemUserResponse {
+  version?: string
+  created_at?: string
+  success?: boolean
+  error?: string | null
+  data: OpenNEMUser
+  total_records?: number | null
+}
+
+export type PrimaryGrouping = "network" | "network_region"
+
+export type SecondaryGrouping =
+  | "fueltech"
+  | "fueltech_group"
+  | "status"
+  | "renewable"
+
+export type UnitFueltechType =
+  | "battery"
+  | "battery_charging"
+  | "battery_discharging"
+  | "bioenergy_biogas"
+  | "bioenergy_biomass"
+  | "coal_black"
+  | "coal_brown"
+  | "distillate"
+  | "gas_ccgt"
+  | "gas_ocgt"
+  | "gas_recip"
+  | "gas_steam"
+  | "gas_wcmg"
+  | "hydro"
+  | "pumps"
+  | "solar_rooftop"
+  | "solar_thermal"
+  | "solar_utility"
+  | "nuclear"
+  | "other"
+  | "solar"
+  | "wind"
+  | "wind_offshore"
+  | "imports"
+  | "exports"
+  | "interconnector"
+  | "aggregator_vpp"
+  | "aggregator_dr"
+
+export type UnitStatusType = "committed" | "operating" | "retired"
+
+export interface ValidationError {
+  loc: (string | number)[]
+  msg: string
+  type: string
+}
+
+export interface Paths {
+  "GET /v4/data/facility/{network_code}/{facility_code}": {
+    path: {
+      network_code: string
+      facility_code: string
+    }
+    query: {
+      metrics: Metric[]
+      interval?: Interval
+      date_start?: string | null
+      date_end?: string | null
+      with_clerk?: boolean
+    }
+    response: APIV4ResponseSchema
+  }
+  "GET /v4/data/network/{network_code}": {
+    path: {
+      network_code: string
+    }
+    query: {
+      metrics: Metric[]
+      interval?: Interval
+      date_start?: string | null
+      date_end?: string | null
+      primary_grouping?: PrimaryGrouping
+      secondary_grouping?: SecondaryGrouping | null
+      with_clerk?: boolean
+    }
+    response: APIV4ResponseSchema
+  }
+  "GET /v4/facilities/": {
+    query: {
+      status_id?: UnitStatusType[] | null
+      fueltech_id?: UnitFueltechType[] | null
+      network_id?: string | null
+      network_region?: string | null
+    }
+    response: APIV4ResponseSchema
+  }
+  "GET /v4/market/network/{network_code}": {
+    path: {
+      network_code: string
+    }
+    query: {
+      metrics: Metric[]
+      interval?: Interval
+      date_start?: string | null
+      date_end?: string | null
+      primary_grouping?: PrimaryGrouping
+      with_clerk?: boolean
+    }
+    response: APIV4ResponseSchema
+  }
+  "GET /v4/me": {
+    query: {
+      with_clerk?: boolean
+    }
+    response: OpennemUserResponse
+  }
+}
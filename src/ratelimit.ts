@@ -0,0 +1,190 @@
+/**
+ * Client-side rate limiting and quota tracking
+ *
+ * A token bucket keeps request rates under the configured limits, and the
+ * remaining API quota reported by responses and /me is tracked so the client
+ * can warn, throttle or stop before the quota runs out.
+ */
+
+import { RateLimitError } from "./errors"
+import { sleep } from "./retry"
+import type { UserPlan } from "./types"
+import { defaultLogger, type ILogger } from "./utils"
+
+export type LowQuotaPolicy = "warn" | "throttle" | "throw"
+
+export interface IRateLimitOptions {
+  /** Maximum requests per second (unlimited if not set) */
+  requestsPerSecond?: number
+  /** Maximum requests per minute (unlimited if not set) */
+  requestsPerMinute?: number
+  /** Remaining quota at or below which the low quota policy applies (default 100) */
+  lowQuotaThreshold?: number
+  /** What to do when the remaining quota is low (default "warn") */
+  onLowQuota?: LowQuotaPolicy
+  /** Delay before each request while throttling, in milliseconds (default 1000) */
+  throttleDelayMs?: number
+}
+
+export interface IQuotaStatus {
+  /** Remaining requests reported by the API, if known */
+  remaining?: number
+  /** When the quota resets, if reported */
+  reset?: string
+  /** The plan of the API key owner, if known from /me */
+  plan?: UserPlan
+  /** When the quota was last updated from a response */
+  updatedAt?: Date
+  /** Whether the remaining quota is at or below the low quota threshold */
+  isLow: boolean
+  /** Requests made by this client */
+  requestCount: number
+}
+
+/**
+ * Token bucket allowing `capacity` requests per `intervalMs`
+ */
+export class TokenBucket {
+  private tokens: number
+  private lastRefill: number
+
+  constructor(
+    private capacity: number,
+    private intervalMs: number,
+  ) {
+    this.tokens = capacity
+    this.lastRefill = Date.now()
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    const elapsed = now - this.lastRefill
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.capacity) / this.intervalMs,
+    )
+    this.lastRefill = now
+  }
+
+  /**
+   * Wait until a token is available and take it
+   */
+  async acquire(signal?: AbortSignal | null): Promise<void> {
+    for (;;) {
+      this.refill()
+      if (this.tokens >= 1) {
+        this.tokens -= 1
+        return
+      }
+      const waitMs = ((1 - this.tokens) * this.intervalMs) / this.capacity
+      await sleep(Math.ceil(waitMs), signal)
+    }
+  }
+}
+
+export class RateLimiter {
+  private buckets: TokenBucket[] = []
+  private threshold: number
+  private policy: LowQuotaPolicy
+  private throttleDelayMs: number
+  private status: Omit<IQuotaStatus, "isLow"> = { requestCount: 0 }
+  private warned = false
+
+  constructor(
+    options: IRateLimitOptions = {},
+    private logger: ILogger = defaultLogger,
+  ) {
+    if (options.requestsPerSecond) {
+      this.buckets.push(new TokenBucket(options.requestsPerSecond, 1000))
+    }
+    if (options.requestsPerMinute) {
+      this.buckets.push(new TokenBucket(options.requestsPerMinute, 60000))
+    }
+    this.threshold = options.lowQuotaThreshold ?? 100
+    this.policy = options.onLowQuota ?? "warn"
+    this.throttleDelayMs = options.throttleDelayMs ?? 1000
+  }
+
+  /**
+   * Forget the tracked quota once its reported reset time has passed
+   */
+  private expire(): void {
+    const { reset } = this.status
+    if (reset && Date.parse(reset) <= Date.now()) {
+      this.status = { ...this.status, remaining: undefined, reset: undefined }
+      this.warned = false
+    }
+  }
+
+  private isLow(): boolean {
+    return (
+      this.status.remaining !== undefined &&
+      this.status.remaining <= this.threshold
+    )
+  }
+
+  /**
+   * Wait for permission to make a request, applying rate limits and the low
+   * quota policy
+   *
+   * @param checkQuota Apply the low quota policy, false for requests such as
+   * /me that refresh the quota
+   * @throws RateLimitError when the quota is low and the policy is "throw"
+   */
+  async acquire(signal?: AbortSignal | null, checkQuota = true): Promise<void> {
+    this.expire()
+    if (checkQuota && this.isLow()) {
+      if (this.policy === "throw") {
+        throw new RateLimitError(
+          `API quota is low: ${this.status.remaining} requests remaining`,
+          undefined,
+          429,
+          undefined,
+          { remaining: this.status.remaining },
+        )
+      }
+      if (this.policy === "throttle") {
+        await sleep(this.throttleDelayMs, signal)
+      }
+    }
+
+    for (const bucket of this.buckets) {
+      await bucket.acquire(signal)
+    }
+    this.status.requestCount++
+  }
+
+  /**
+   * Update the tracked quota from a response or the current user
+   */
+  update(quota: { remaining?: number; reset?: string; plan?: UserPlan }): void {
+    if (quota.remaining === undefined && quota.plan === undefined) return
+
+    this.expire()
+    this.status = {
+      ...this.status,
+      ...Object.fromEntries(
+        Object.entries(quota).filter(([, value]) => value !== undefined),
+      ),
+      updatedAt: new Date(),
+    }
+
+    if (!this.isLow()) {
+      this.warned = false
+    } else if (this.policy === "warn" && !this.warned) {
+      this.warned = true
+      this.logger.warn(
+        `API quota is low: ${this.status.remaining} requests remaining`,
+        { ...this.getStatus() },
+      )
+    }
+  }
+
+  /**
+   * Get the tracked quota status
+   */
+  getStatus(): IQuotaStatus {
+    this.expire()
+    return { ...this.status, isLow: this.isLow() }
+  }
+}
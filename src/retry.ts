@@ -0,0 +1,126 @@
+/**
+ * Retry policy for OpenElectricity API requests
+ *
+ * Transient failures (rate limiting, gateway errors and network failures) are
+ * retried with exponential backoff and optional full jitter.
+ */
+
+export interface IRetryOptions {
+  /** Maximum number of attempts including the first request (1 disables retries) */
+  maxAttempts: number
+  /** Delay before the first retry in milliseconds, doubled on every attempt */
+  baseDelayMs: number
+  /** Upper bound for any single delay in milliseconds */
+  maxDelayMs: number
+  /** Randomise each delay between 0 and the computed backoff ("full jitter") */
+  jitter: boolean
+  /** HTTP status codes that should be retried */
+  retryableStatusCodes: number[]
+  /** Decide whether a thrown error (e.g. a network failure) should be retried */
+  isRetryableError: (error: unknown) => boolean
+  /** Use the Retry-After response header as the delay when it is present */
+  respectRetryAfter: boolean
+}
+
+/**
+ * Network failures surface from fetch as a TypeError in both browsers and Node.js
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError
+}
+
+export const DEFAULT_RETRY_OPTIONS: IRetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  isRetryableError: isNetworkError,
+  respectRetryAfter: true,
+}
+
+/**
+ * Resolve the retry policy from client options
+ *
+ * @param options Partial overrides, or false to disable retries entirely
+ * @returns The complete retry policy
+ */
+export function resolveRetryOptions(
+  options?: Partial<IRetryOptions> | false,
+): IRetryOptions {
+  if (options === false) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 }
+  }
+  return { ...DEFAULT_RETRY_OPTIONS, ...options }
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * @param value Header value, either delay-seconds or an HTTP date
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined
+
+  const trimmed = value.trim()
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000
+  }
+
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - now)
+}
+
+/**
+ * Calculate the delay before the next attempt
+ *
+ * @param attempt The attempt that just failed (1-based)
+ * @param options The retry policy
+ * @param retryAfterMs Delay requested by the server, if any
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: IRetryOptions,
+  retryAfterMs?: number,
+): number {
+  if (options.respectRetryAfter && retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, options.maxDelayMs)
+  }
+
+  const backoff = Math.min(
+    options.baseDelayMs * 2 ** (attempt - 1),
+    options.maxDelayMs,
+  )
+  return options.jitter ? Math.random() * backoff : backoff
+}
+
+/**
+ * Wait for the given number of milliseconds
+ *
+ * @param ms Delay in milliseconds
+ * @param signal Optional signal that rejects the wait when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
@@ -0,0 +1,229 @@
+/**
+ * Lightweight runtime schemas for API responses
+ *
+ * Used by the client's strict mode to check that responses have the shape the
+ * types promise, reporting every offending path instead of failing later with
+ * an undefined value deep inside a DataTable.
+ */
+
+import { ResponseSchemaError } from "./errors"
+import type { ISchemaIssue } from "./types"
+
+export type Schema = (
+  value: unknown,
+  path: string,
+  issues: ISchemaIssue[],
+) => void
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function primitive(type: "string" | "number" | "boolean"): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== type) {
+      issues.push({ path, expected: type, received: describeValue(value) })
+    }
+  }
+}
+
+export const string = primitive("string")
+export const number = primitive("number")
+export const boolean = primitive("boolean")
+
+export const unknownValue: Schema = () => {}
+
+export function nullable(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value !== null) schema(value, path, issues)
+  }
+}
+
+export function optional(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value !== undefined) schema(value, path, issues)
+  }
+}
+
+export function union(...schemas: Schema[]): Schema {
+  return (value, path, issues) => {
+    const attempts = schemas.map((schema) => {
+      const found: ISchemaIssue[] = []
+      schema(value, path, found)
+      return found
+    })
+    if (attempts.every((found) => found.length > 0)) {
+      issues.push({
+        path,
+        expected: attempts
+          .flatMap((found) => found.map((i) => i.expected))
+          .join(" | "),
+        received: describeValue(value),
+      })
+    }
+  }
+}
+
+export function array(item: Schema): Schema {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: "array", received: describeValue(value) })
+      return
+    }
+    value.forEach((element, index) =>
+      item(element, `${path}[${index}]`, issues),
+    )
+  }
+}
+
+export function tuple(items: Schema[]): Schema {
+  return (value, path, issues) => {
+    if (!Array.isArray(value) || value.length !== items.length) {
+      issues.push({
+        path,
+        expected: `tuple of ${items.length}`,
+        received: Array.isArray(value)
+          ? `array of ${value.length}`
+          : describeValue(value),
+      })
+      return
+    }
+    items.forEach((item, index) =>
+      item(value[index], `${path}[${index}]`, issues),
+    )
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+export function object(shape: Record<string, Schema>): Schema {
+  return (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, expected: "object", received: describeValue(value) })
+      return
+    }
+    for (const [key, schema] of Object.entries(shape)) {
+      schema(value[key], path ? `${path}.${key}` : key, issues)
+    }
+  }
+}
+
+export function record(item: Schema): Schema {
+  return (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, expected: "object", received: describeValue(value) })
+      return
+    }
+    for (const [key, element] of Object.entries(value)) {
+      item(element, path ? `${path}.${key}` : key, issues)
+    }
+  }
+}
+
+export function apiResponseSchema(data: Schema): Schema {
+  return object({
+    version: string,
+    created_at: string,
+    success: boolean,
+    error: nullable(string),
+    data,
+    total_records: optional(nullable(number)),
+  })
+}
+
+export const timeSeriesResultSchema = object({
+  name: string,
+  date_start: string,
+  date_end: string,
+  columns: record(union(string, boolean)),
+  data: array(tuple([string, nullable(number)])),
+})
+
+export const networkTimeSeriesSchema = object({
+  network_code: string,
+  metric: string,
+  unit: string,
+  interval: string,
+  start: string,
+  end: string,
+  groupings: array(string),
+  results: array(timeSeriesResultSchema),
+  network_timezone_offset: string,
+})
+
+const optionalDate = optional(nullable(string))
+
+export const unitSchema = object({
+  code: string,
+  fueltech_id: nullable(string),
+  status_id: nullable(string),
+  capacity_registered: nullable(number),
+  capacity_maximum: nullable(number),
+  capacity_storage: nullable(number),
+  max_generation: nullable(number),
+  max_generation_interval: nullable(string),
+  emissions_factor_co2: nullable(number),
+  data_first_seen: nullable(string),
+  data_last_seen: nullable(string),
+  dispatch_type: string,
+  commencement_date: optionalDate,
+  closure_date: optionalDate,
+  expected_operation_date: optionalDate,
+  expected_closure_date: optionalDate,
+  construction_start_date: optionalDate,
+  project_approval_date: optionalDate,
+  project_lodgement_date: optionalDate,
+  created_at: optionalDate,
+  updated_at: optionalDate,
+})
+
+export const facilitySchema = object({
+  code: string,
+  name: string,
+  network_id: string,
+  network_region: string,
+  description: nullable(string),
+  npi_id: nullable(string),
+  location: nullable(object({ lat: number, lng: number })),
+  units: array(unitSchema),
+  created_at: optionalDate,
+  updated_at: optionalDate,
+})
+
+export const timeSeriesResponseSchema = apiResponseSchema(
+  array(networkTimeSeriesSchema),
+)
+
+export const facilitiesResponseSchema = apiResponseSchema(array(facilitySchema))
+
+/**
+ * Check a value against a schema and return every mismatch
+ */
+export function checkSchema(schema: Schema, value: unknown): ISchemaIssue[] {
+  const issues: ISchemaIssue[] = []
+  schema(value, "", issues)
+  return issues
+}
+
+/**
+ * Check a response against a schema
+ *
+ * @throws ResponseSchemaError listing the offending paths
+ */
+export function assertSchema(
+  schema: Schema,
+  value: unknown,
+  source: string,
+): void {
+  const issues = checkSchema(schema, value)
+  if (issues.length > 0) {
+    throw new ResponseSchemaError(
+      `Response from ${source} does not match the expected schema`,
+      issues,
+    )
+  }
+}
@@ -0,0 +1,630 @@
+/**
+ * Mock OpenElectricity API server
+ *
+ * Serves synthetic but plausible responses for the main v4 endpoints so UIs
+ * and CI can run against a local server instead of the live API. Node only,
+ * imported from "openelectricity/server".
+ */
+
+import { createServer } from "node:http"
+import type { AddressInfo } from "node:net"
+
+import dayjs from "dayjs"
+import utc from "dayjs/plugin/utc"
+
+import { MAX_DAYS_PER_REQUEST } from "./chunking"
+import { NETWORK_REGIONS } from "./config"
+import { getLastCompleteInterval, stripTimezone } from "./datetime"
+import {
+  DATA_METRIC_UNITS,
+  generateFacilityTimeSeries,
+  generateNetworkTimeSeries,
+  getSyntheticFacilities,
+  MARKET_METRIC_UNITS,
+} from "./synthetic"
+import type {
+  DataInterval,
+  DataMetric,
+  DataPrimaryGrouping,
+  DataSecondaryGrouping,
+  IAPIResponse,
+  IFacility,
+  INetworkTimeSeries,
+  ITimeSeriesResult,
+  IUser,
+  MarketMetric,
+  NetworkCode,
+  PollutantCategory,
+  PollutantCode,
+} from "./types"
+
+dayjs.extend(utc)
+
+type Dayjs = dayjs.Dayjs
+
+export interface IMockServerOptions {
+  /** Port to listen on, 0 picks a free port (default 0) */
+  port?: number
+  /** Host to bind to (default 127.0.0.1) */
+  host?: string
+  /** Only accept this API key; any bearer token is accepted if not set */
+  apiKey?: string
+  /** Seed for the synthetic data (default 1) */
+  seed?: number
+}
+
+export interface IMockRequest {
+  method: string
+  /** Path and query, e.g. /v4/data/network/NEM?metrics=power */
+  url: string
+  /** Value of the Authorization header */
+  authorization?: string
+}
+
+export interface IMockResponse {
+  status: number
+  headers: Record<string, string>
+  body: unknown
+}
+
+export interface IMockServer {
+  /** Base URL including /v4, suitable for OPENELECTRICITY_API_URL */
+  url: string
+  close(): Promise<void>
+}
+
+const POLLUTANTS: Record<
+  PollutantCode,
+  { label: string; category: PollutantCategory; kgPerMW: number }
+> = {
+  nox: {
+    label: "Oxides of Nitrogen",
+    category: "air_pollutant",
+    kgPerMW: 9000,
+  },
+  so2: { label: "Sulfur dioxide", category: "air_pollutant", kgPerMW: 14000 },
+  co: { label: "Carbon monoxide", category: "air_pollutant", kgPerMW: 600 },
+  pm10: {
+    label: "Particulate Matter 10.0 um",
+    category: "air_pollutant",
+    kgPerMW: 450,
+  },
+  pm2_5: {
+    label: "Particulate Matter 2.5 um",
+    category: "air_pollutant",
+    kgPerMW: 180,
+  },
+  voc: {
+    label: "Total Volatile Organic Compounds",
+    category: "air_pollutant",
+    kgPerMW: 60,
+  },
+  ammonia: {
+    label: "Ammonia (total)",
+    category: "air_pollutant",
+    kgPerMW: 15,
+  },
+  hcl: { label: "Hydrochloric acid", category: "air_pollutant", kgPerMW: 90 },
+  as: {
+    label: "Arsenic & compounds",
+    category: "heavy_metal",
+    kgPerMW: 0.2,
+  },
+  cd: {
+    label: "Cadmium & compounds",
+    category: "heavy_metal",
+    kgPerMW: 0.02,
+  },
+  cr3: {
+    label: "Chromium (III) compounds",
+    category: "heavy_metal",
+    kgPerMW: 0.3,
+  },
+  cr6: {
+    label: "Chromium (VI) compounds",
+    category: "heavy_metal",
+    kgPerMW: 0.05,
+  },
+  cu: { label: "Copper & compounds", category: "heavy_metal", kgPerMW: 0.4 },
+  hg: { label: "Mercury & compounds", category: "heavy_metal", kgPerMW: 0.08 },
+  ni: { label: "Nickel & compounds", category: "heavy_metal", kgPerMW: 0.3 },
+  pb: { label: "Lead & compounds", category: "heavy_metal", kgPerMW: 0.25 },
+  zn: { label: "Zinc and compounds", category: "heavy_metal", kgPerMW: 1.2 },
+  benzene: { label: "Benzene", category: "organic", kgPerMW: 0.9 },
+  formaldehyde: {
+    label: "Formaldehyde (methyl aldehyde)",
+    category: "organic",
+    kgPerMW: 1.5,
+  },
+  pah: {
+    label: "Polycyclic aromatic hydrocarbons (B[a]Peq)",
+    category: "organic",
+    kgPerMW: 0.01,
+  },
+  dioxins: {
+    label: "Polychlorinated dioxins and furans (TEQ)",
+    category: "organic",
+    kgPerMW: 0.000001,
+  },
+  fluoride: {
+    label: "Fluoride compounds",
+    category: "air_pollutant",
+    kgPerMW: 40,
+  },
+}
+
+const INTERVALS: DataInterval[] = [
+  "5m",
+  "1h",
+  "1d",
+  "7d",
+  "1M",
+  "3M",
+  "season",
+  "1y",
+  "fy",
+]
+
+// Range served when date_start is omitted, in days
+const DEFAULT_RANGE_DAYS: Record<DataInterval, number> = {
+  "5m": 1,
+  "1h": 7,
+  "1d": 30,
+  "7d": 365,
+  "1M": 365,
+  "3M": 730,
+  season: 730,
+  "1y": 1825,
+  fy: 1825,
+}
+
+const DATE_FORMAT = "YYYY-MM-DDTHH:mm:ss"
+
+class MockHTTPError extends Error {
+  constructor(
+    public status: number,
+    public detail: unknown,
+  ) {
+    super(typeof detail === "string" ? detail : "Mock API error")
+  }
+}
+
+function invalidQuery(
+  field: string,
+  msg: string,
+  type: string,
+  input: unknown = null,
+): MockHTTPError {
+  return new MockHTTPError(422, [{ type, loc: ["query", field], msg, input }])
+}
+
+function envelope<T>(data: T): IAPIResponse<T> {
+  return {
+    version: "4.0.0-mock",
+    created_at: dayjs().toISOString(),
+    success: true,
+    error: null,
+    data,
+    total_records: Array.isArray(data) ? data.length : null,
+  }
+}
+
+/**
+ * Fail with a 404 like the API when no series has any results
+ */
+function requireResults(data: INetworkTimeSeries[]): INetworkTimeSeries[] {
+  if (data.every((series) => series.results.length === 0)) {
+    throw new MockHTTPError(404, "No data found")
+  }
+  return data
+}
+
+/*
+ * Query parsing
+ */
+
+function parseNetwork(value: string): NetworkCode {
+  if (!(value in NETWORK_REGIONS)) {
+    throw new MockHTTPError(422, [
+      {
+        type: "enum",
+        loc: ["path", "network_code"],
+        msg: `Input should be ${Object.keys(NETWORK_REGIONS)
+          .map((code) => `'${code}'`)
+          .join(", ")}`,
+        input: value,
+      },
+    ])
+  }
+  return value as NetworkCode
+}
+
+function parseDate(query: URLSearchParams, field: string): Dayjs | undefined {
+  const value = query.get(field)
+  if (!value) return undefined
+  const date = dayjs.utc(stripTimezone(value))
+  if (!date.isValid()) {
+    throw invalidQuery(
+      field,
+      "Input should be a valid datetime",
+      "datetime_parsing",
+      value,
+    )
+  }
+  return date
+}
+
+interface ITimeRange {
+  interval: DataInterval
+  dateStart: string
+  dateEnd: string
+}
+
+function parseTimeRange(
+  query: URLSearchParams,
+  network: NetworkCode,
+): ITimeRange {
+  const interval = (query.get("interval") ?? "5m") as DataInterval
+  if (!INTERVALS.includes(interval)) {
+    throw invalidQuery(
+      "interval",
+      `Input should be ${INTERVALS.map((value) => `'${value}'`).join(", ")}`,
+      "enum",
+      interval,
+    )
+  }
+
+  const end =
+    parseDate(query, "date_end") ??
+    dayjs.utc(getLastCompleteInterval(network)).add(5, "minute")
+  const start =
+    parseDate(query, "date_start") ??
+    end.subtract(DEFAULT_RANGE_DAYS[interval], "day")
+
+  if (start.isAfter(end)) {
+    throw new MockHTTPError(400, {
+      error: "date_start must be before date_end",
+      hint: "Swap the dates or correct the range",
+    })
+  }
+  const maxDays = MAX_DAYS_PER_REQUEST[interval]
+  if (end.diff(start, "day", true) > maxDays) {
+    throw new MockHTTPError(400, {
+      error: `Date range too large for ${interval} interval`,
+      hint: `Maximum range is ${maxDays} days`,
+    })
+  }
+  return {
+    interval,
+    dateStart: start.format(DATE_FORMAT),
+    dateEnd: end.format(DATE_FORMAT),
+  }
+}
+
+function parseMetrics<M extends string>(
+  query: URLSearchParams,
+  supported: M[],
+): M[] {
+  const requested = query.getAll("metrics")
+  if (requested.length === 0) {
+    throw invalidQuery("metrics", "Field required", "missing")
+  }
+  const invalid = requested.filter((metric) => !supported.includes(metric as M))
+  if (invalid.length > 0) {
+    throw new MockHTTPError(400, {
+      error: `Invalid metrics: ${invalid.join(", ")}`,
+      hint: `Supported metrics are ${supported.join(", ")}`,
+      supported_metrics: supported,
+      requested_metrics: requested,
+      invalid_metrics: invalid,
+    })
+  }
+  return requested as M[]
+}
+
+/*
+ * Route handlers
+ */
+
+function networkData(
+  network: NetworkCode,
+  query: URLSearchParams,
+  seed?: number,
+): INetworkTimeSeries[] {
+  const metrics = parseMetrics(
+    query,
+    Object.keys(DATA_METRIC_UNITS) as DataMetric[],
+  )
+  return requireResults(
+    generateNetworkTimeSeries(network, metrics, {
+      ...parseTimeRange(query, network),
+      seed,
+      primaryGrouping: (query.get("primary_grouping") ??
+        undefined) as DataPrimaryGrouping,
+      secondaryGrouping: query.getAll(
+        "secondary_grouping",
+      ) as DataSecondaryGrouping[],
+      network_region: query.get("network_region") ?? undefined,
+      fueltech: query.getAll("fueltech"),
+      fueltech_group: query.getAll("fueltech_group"),
+    }),
+  )
+}
+
+function facilityData(
+  network: NetworkCode,
+  query: URLSearchParams,
+  facilityCodes: string[],
+  seed?: number,
+): INetworkTimeSeries[] {
+  const metrics = parseMetrics(
+    query,
+    Object.keys(DATA_METRIC_UNITS) as DataMetric[],
+  )
+  return requireResults(
+    generateFacilityTimeSeries(network, metrics, {
+      ...parseTimeRange(query, network),
+      seed,
+      facilityCodes,
+      unitCodes: query.getAll("unit_code"),
+    }),
+  )
+}
+
+function marketData(
+  network: NetworkCode,
+  query: URLSearchParams,
+  seed?: number,
+): INetworkTimeSeries[] {
+  const metrics = parseMetrics(
+    query,
+    Object.keys(MARKET_METRIC_UNITS) as MarketMetric[],
+  )
+  return requireResults(
+    generateNetworkTimeSeries(network, metrics, {
+      ...parseTimeRange(query, network),
+      seed,
+      primaryGrouping: (query.get("primary_grouping") ??
+        undefined) as DataPrimaryGrouping,
+      network_region: query.get("network_region") ?? undefined,
+    }),
+  )
+}
+
+function facilities(query: URLSearchParams): IFacility[] {
+  const statuses = query.getAll("status_id")
+  const fueltechs = query.getAll("fueltech_id")
+  const networks = query.getAll("network_id")
+  const region = query.get("network_region")
+
+  return getSyntheticFacilities()
+    .filter(
+      (facility) =>
+        (!networks.length || networks.includes(facility.network_id)) &&
+        (!region || facility.network_region === region),
+    )
+    .map((facility) => ({
+      ...facility,
+      units: facility.units.filter(
+        (unit) =>
+          (!statuses.length || statuses.includes(unit.status_id ?? "")) &&
+          (!fueltechs.length || fueltechs.includes(unit.fueltech_id ?? "")),
+      ),
+    }))
+    .filter((facility) => facility.units.length > 0)
+}
+
+function pollution(query: URLSearchParams): INetworkTimeSeries[] {
+  const facilityCodes = query.getAll("facility_code")
+  const codes = query.getAll("pollutant_code")
+  const categories = query.getAll("pollutant_category")
+
+  const end = parseDate(query, "date_end") ?? dayjs.utc().startOf("year")
+  const start = (
+    parseDate(query, "date_start") ?? end.subtract(5, "year")
+  ).startOf("year")
+  const years: Dayjs[] = []
+  for (let year = start; year.isBefore(end); year = year.add(1, "year")) {
+    years.push(year)
+  }
+  const timestamps = years.map((year) => `${year.format(DATE_FORMAT)}+10:00`)
+
+  const pollutants = (Object.keys(POLLUTANTS) as PollutantCode[]).filter(
+    (code) =>
+      (!codes.length || codes.includes(code)) &&
+      (!categories.length || categories.includes(POLLUTANTS[code].category)),
+  )
+
+  const results: ITimeSeriesResult[] = []
+  for (const facility of getSyntheticFacilities()) {
+    if (!facility.npi_id || years.length === 0) continue
+    if (facilityCodes.length && !facilityCodes.includes(facility.code)) continue
+    const capacity = facility.units.reduce(
+      (sum, unit) => sum + (unit.capacity_registered ?? 0),
+      0,
+    )
+    // Gas plants emit a fraction of what coal plants do
+    const scale = facility.units.some((unit) =>
+      unit.fueltech_id?.startsWith("gas"),
+    )
+      ? 0.1
+      : 1
+
+    for (const code of pollutants) {
+      const { label, category, kgPerMW } = POLLUTANTS[code]
+      results.push({
+        name: `pollution_${facility.code}_${code}`,
+        date_start: timestamps[0],
+        date_end: timestamps[timestamps.length - 1],
+        columns: {
+          facility_code: facility.code,
+          pollutant_code: code,
+          pollutant_label: label,
+          pollutant_category: category,
+        },
+        data: years.map((year, index) => [
+          timestamps[index],
+          Math.round(
+            capacity *
+              kgPerMW *
+              scale *
+              (1 - 0.03 * Math.max(0, year.year() - 2015)) *
+              100,
+          ) / 100,
+        ]),
+      })
+    }
+  }
+
+  return requireResults([
+    {
+      network_code: "AU",
+      metric: "pollution",
+      unit: "kg",
+      interval: "1y",
+      start: `${start.format(DATE_FORMAT)}+10:00`,
+      end: `${end.format(DATE_FORMAT)}+10:00`,
+      groupings: [],
+      results,
+      network_timezone_offset: "+10:00",
+    },
+  ])
+}
+
+const MOCK_USER: IUser = {
+  id: "user_mock",
+  full_name: "Mock User",
+  email: "mock@example.com",
+  owner_id: "owner_mock",
+  plan: "PRO",
+  meta: { remaining: 10000, reset: null },
+  rate_limit: { limit: 10000, remaining: 10000, reset: 0 },
+}
+
+function route(path: string, query: URLSearchParams, seed?: number): unknown {
+  const parts = path.split("/").filter(Boolean)
+
+  if (path === "/me") return MOCK_USER
+  if (path === "/facilities" || path === "/facilities/") {
+    return facilities(query)
+  }
+  if (path === "/pollution/facilities") return pollution(query)
+
+  if (parts[0] === "data" && parts[1] === "network" && parts.length === 3) {
+    return networkData(parseNetwork(parts[2]), query, seed)
+  }
+  if (parts[0] === "data" && parts[1] === "facilities" && parts.length === 3) {
+    return facilityData(
+      parseNetwork(parts[2]),
+      query,
+      query.getAll("facility_code"),
+      seed,
+    )
+  }
+  if (parts[0] === "data" && parts[1] === "facility" && parts.length === 4) {
+    const network = parseNetwork(parts[2])
+    const exists = getSyntheticFacilities().some(
+      (facility) =>
+        facility.code === parts[3] &&
+        (network === "AU" || facility.network_id === network),
+    )
+    if (!exists) throw new MockHTTPError(404, "Facility not found")
+    return facilityData(network, query, [parts[3]], seed)
+  }
+  if (parts[0] === "market" && parts[1] === "network" && parts.length === 3) {
+    return marketData(parseNetwork(parts[2]), query, seed)
+  }
+
+  throw new MockHTTPError(404, "Not Found")
+}
+
+/**
+ * Handle a request to the mock API without starting a server
+ */
+export function handleMockRequest(
+  request: IMockRequest,
+  options: Pick<IMockServerOptions, "apiKey" | "seed"> = {},
+): IMockResponse {
+  const headers = {
+    "Content-Type": "application/json",
+    "X-RateLimit-Limit": "10000",
+    "X-RateLimit-Remaining": "10000",
+  }
+  const { pathname, searchParams } = new URL(request.url, "http://localhost")
+
+  try {
+    if (!pathname.startsWith("/v4/")) {
+      throw new MockHTTPError(404, "Not Found")
+    }
+    if (request.method.toUpperCase() !== "GET") {
+      throw new MockHTTPError(405, "Method Not Allowed")
+    }
+
+    const apiKey = request.authorization?.replace(/^Bearer\s+/i, "")
+    if (!apiKey) throw new MockHTTPError(403, "Not authenticated")
+    if (options.apiKey && apiKey !== options.apiKey) {
+      throw new MockHTTPError(403, "Invalid API key")
+    }
+
+    const data = route(pathname.slice("/v4".length), searchParams, options.seed)
+    return { status: 200, headers, body: envelope(data) }
+  } catch (error) {
+    if (error instanceof MockHTTPError) {
+      return {
+        status: error.status,
+        headers,
+        body: { detail: error.detail },
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Start the mock API on a local port
+ *
+ * @example
+ * const server = await startMockServer({ port: 8000 })
+ * process.env.OPENELECTRICITY_API_URL = server.url
+ */
+export async function startMockServer(
+  options: IMockServerOptions = {},
+): Promise<IMockServer> {
+  const host = options.host ?? "127.0.0.1"
+  const server = createServer((request, response) => {
+    let result: IMockResponse
+    try {
+      result = handleMockRequest(
+        {
+          method: request.method ?? "GET",
+          url: request.url ?? "/",
+          authorization: request.headers.authorization,
+        },
+        options,
+      )
+    } catch {
+      result = {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+        body: { detail: "Internal Server Error" },
+      }
+    }
+    response.writeHead(result.status, result.headers)
+    response.end(JSON.stringify(result.body))
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject)
+    server.listen(options.port ?? 0, host, () => resolve())
+  })
+
+  const { port } = server.address() as AddressInfo
+  return {
+    url: `http://${host}:${port}/v4`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections()
+        server.close((error) => (error ? reject(error) : resolve()))
+      }),
+  }
+}
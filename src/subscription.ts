@@ -0,0 +1,241 @@
+/**
+ * Live polling subscriptions
+ *
+ * Polls for the latest completed 5-minute intervals and emits only rows that
+ * haven't been seen before, along with recent intervals whose values the API
+ * has since revised.
+ */
+
+import dayjs from "dayjs"
+import utc from "dayjs/plugin/utc"
+
+import type { IDataTableRow } from "./datatable"
+import {
+  createNetworkDate,
+  getLastCompleteInterval,
+  makeAware,
+} from "./datetime"
+import { MAX_DAYS_PER_REQUEST } from "./chunking"
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay, sleep } from "./retry"
+import type {
+  DataMetric,
+  DataPrimaryGrouping,
+  MarketMetric,
+  NetworkCode,
+} from "./types"
+import { defaultLogger, type ILogger } from "./utils"
+
+dayjs.extend(utc)
+
+const INTERVAL_MINUTES = 5
+
+export interface ISubscriptionUpdate {
+  /** Completed intervals that haven't been emitted before */
+  rows: IDataTableRow[]
+  /** Previously emitted intervals whose values have changed */
+  revised: IDataTableRow[]
+}
+
+export interface ISubscribeOptions {
+  network: NetworkCode
+  /** Network data or market metrics, which can't be mixed */
+  metrics: DataMetric[] | MarketMetric[]
+  grouping?: DataPrimaryGrouping
+  network_region?: string
+  interval?: "5m"
+  /** Called with each batch of new and revised rows */
+  onData: (update: ISubscriptionUpdate) => void | Promise<void>
+  /** Called when a poll fails; failures are logged as warnings if not set */
+  onError?: (error: unknown) => void
+  /** Time between polls in milliseconds (default 60000) */
+  pollIntervalMs?: number
+  /** Number of recent intervals re-fetched on each poll to pick up revisions (default 3) */
+  revisionIntervals?: number
+  /** Maximum delay between polls after repeated failures, in milliseconds (default 300000) */
+  maxBackoffMs?: number
+  /** Stop the subscription when aborted */
+  signal?: AbortSignal
+}
+
+export interface ISubscription {
+  /** Stop polling and cancel any request in flight */
+  unsubscribe(): void
+  readonly closed: boolean
+}
+
+/**
+ * Fetch the rows between two timezone naive dates in network time
+ */
+export type SubscriptionLoader = (
+  range: { dateStart: string; dateEnd: string },
+  signal: AbortSignal,
+) => Promise<IDataTableRow[]>
+
+function splitRow(row: IDataTableRow): { key: string; values: string } {
+  const key: unknown[] = [row.interval.toISOString()]
+  const values: unknown[] = []
+  for (const [column, value] of Object.entries(row)) {
+    if (column === "interval") continue
+    if (typeof value === "number" || value === null) {
+      values.push(column, value)
+    } else {
+      key.push(column, value)
+    }
+  }
+  return { key: JSON.stringify(key), values: JSON.stringify(values) }
+}
+
+export class Subscription implements ISubscription {
+  private controller = new AbortController()
+  private emitted = new Map<string, { values: string; time: number }>()
+  private cursor?: string
+  private pollIntervalMs: number
+  private revisionIntervals: number
+  private maxBackoffMs: number
+
+  constructor(
+    private options: ISubscribeOptions,
+    private loader: SubscriptionLoader,
+    private logger: ILogger = defaultLogger,
+  ) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 60000
+    this.revisionIntervals = options.revisionIntervals ?? 3
+    this.maxBackoffMs = options.maxBackoffMs ?? 300000
+
+    const { signal } = options
+    if (signal?.aborted) {
+      this.controller.abort()
+    } else {
+      signal?.addEventListener("abort", () => this.unsubscribe(), {
+        once: true,
+      })
+    }
+    void this.run()
+  }
+
+  public get closed(): boolean {
+    return this.controller.signal.aborted
+  }
+
+  public unsubscribe(): void {
+    this.controller.abort()
+  }
+
+  private async run(): Promise<void> {
+    let failures = 0
+    while (!this.closed) {
+      let delay = this.pollIntervalMs
+      try {
+        await this.poll()
+        failures = 0
+      } catch (error) {
+        if (this.closed) return
+        failures++
+        delay = getRetryDelay(failures, {
+          ...DEFAULT_RETRY_OPTIONS,
+          baseDelayMs: Math.min(5000, this.pollIntervalMs),
+          maxDelayMs: this.maxBackoffMs,
+          jitter: false,
+        })
+        if (this.options.onError) {
+          try {
+            this.options.onError(error)
+          } catch (handlerError) {
+            // A throwing handler must not stop polling
+            this.logger.warn("Subscription error handler failed", {
+              error:
+                handlerError instanceof Error
+                  ? handlerError.message
+                  : handlerError,
+            })
+          }
+        } else {
+          this.logger.warn(`Subscription poll failed, retrying in ${delay}ms`, {
+            error: error instanceof Error ? error.message : error,
+          })
+        }
+      }
+
+      try {
+        await sleep(delay, this.controller.signal)
+      } catch {
+        return
+      }
+    }
+  }
+
+  /**
+   * Fetch from the earliest interval that may have been revised up to the
+   * last complete interval, and emit anything new or changed
+   */
+  private async poll(): Promise<void> {
+    const lastComplete = getLastCompleteInterval(this.options.network)
+    const revisionMinutes = this.revisionIntervals * INTERVAL_MINUTES
+
+    // After a long outage, only catch up as far as one request can reach
+    const earliest = dayjs
+      .utc(lastComplete)
+      .subtract(MAX_DAYS_PER_REQUEST["5m"], "day")
+      .add(revisionMinutes + INTERVAL_MINUTES, "minute")
+    let from = dayjs.utc(this.cursor ?? lastComplete)
+    if (from.isBefore(earliest)) {
+      this.logger.warn("Subscription fell behind, skipping older intervals", {
+        from: this.cursor,
+        resumeFrom: earliest.format("YYYY-MM-DDTHH:mm:ss"),
+      })
+      from = earliest
+    }
+    const dateStart = from
+      .subtract(revisionMinutes, "minute")
+      .format("YYYY-MM-DDTHH:mm:ss")
+    const dateEnd = dayjs
+      .utc(lastComplete)
+      .add(INTERVAL_MINUTES, "minute")
+      .format("YYYY-MM-DDTHH:mm:ss")
+
+    const fetched = await this.loader(
+      { dateStart, dateEnd },
+      this.controller.signal,
+    )
+    if (this.closed) return
+
+    const network = this.options.network
+    const cutoff = createNetworkDate(makeAware(lastComplete, network)).getTime()
+    const windowStart = createNetworkDate(
+      makeAware(dateStart, network),
+    ).getTime()
+
+    const update: ISubscriptionUpdate = { rows: [], revised: [] }
+    const seen = new Map<string, { values: string; time: number }>()
+    for (const row of fetched) {
+      const time = row.interval.getTime()
+      if (time > cutoff) continue
+
+      const { key, values } = splitRow(row)
+      const previous = this.emitted.get(key)
+      if (!previous) {
+        update.rows.push(row)
+      } else if (previous.values !== values) {
+        update.revised.push(row)
+      } else {
+        continue
+      }
+      seen.set(key, { values, time })
+    }
+
+    // Only mark rows as emitted once onData has taken them, so a failed
+    // handler gets the same rows again on the next poll
+    if (update.rows.length > 0 || update.revised.length > 0) {
+      await this.options.onData(update)
+    }
+    for (const [key, entry] of seen) {
+      this.emitted.set(key, entry)
+    }
+
+    // Forget intervals that are too old to be revised
+    for (const [key, entry] of this.emitted) {
+      if (entry.time < windowStart) this.emitted.delete(key)
+    }
+    this.cursor = lastComplete
+  }
+}
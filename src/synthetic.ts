@@ -0,0 +1,1043 @@
+/**
+ * Synthetic NEM and WEM time series
+ *
+ * Generates plausible INetworkTimeSeries payloads for a fixed set of
+ * facilities: coal baseload, diurnal solar, variable wind, battery
+ * charge/discharge cycles and prices with evening spikes and negative
+ * middays. Noise is derived from the seed and the time alone, so overlapping
+ * date ranges always agree.
+ */
+
+import dayjs from "dayjs"
+import utc from "dayjs/plugin/utc"
+
+import { NETWORK_REGIONS, NETWORK_TIMEZONE_OFFSETS } from "./config"
+import { floorInterval, stripTimezone } from "./datetime"
+import { ValidationError } from "./errors"
+import type {
+  DataInterval,
+  DataMetric,
+  DataPrimaryGrouping,
+  DataSecondaryGrouping,
+  IFacility,
+  INetworkTimeSeries,
+  ITimeSeriesResult,
+  IUnit,
+  MarketMetric,
+  NetworkCode,
+  UnitDispatchType,
+  UnitFueltechGroupType,
+  UnitFueltechType,
+  UnitStatusType,
+} from "./types"
+
+dayjs.extend(utc)
+
+type Dayjs = dayjs.Dayjs
+
+export interface ISyntheticRangeOptions {
+  interval?: DataInterval
+  /** Timezone naive start in network time */
+  dateStart: string
+  /** Timezone naive end in network time, exclusive */
+  dateEnd: string
+  /** Seed for reproducible noise (default 1) */
+  seed?: number
+}
+
+export interface ISyntheticNetworkOptions extends ISyntheticRangeOptions {
+  primaryGrouping?: DataPrimaryGrouping
+  /** Applies to network data metrics only */
+  secondaryGrouping?: DataSecondaryGrouping[]
+  network_region?: string
+  fueltech?: (UnitFueltechType | string)[]
+  fueltech_group?: (UnitFueltechGroupType | string)[]
+}
+
+export interface ISyntheticFacilityOptions extends ISyntheticRangeOptions {
+  facilityCodes?: string[]
+  unitCodes?: string[]
+}
+
+interface ISyntheticUnit {
+  code: string
+  fueltech: UnitFueltechType
+  capacity: number
+  emissionsFactor: number | null
+  dispatchType: UnitDispatchType
+  status: UnitStatusType
+}
+
+interface ISyntheticFacility {
+  code: string
+  name: string
+  network: Exclude<NetworkCode, "AU">
+  region: string
+  npiId: string | null
+  location: { lat: number; lng: number }
+  units: ISyntheticUnit[]
+}
+
+function units(
+  prefix: string,
+  count: number,
+  fueltech: UnitFueltechType,
+  capacity: number,
+  emissionsFactor: number | null = null,
+  status: UnitStatusType = "operating",
+): ISyntheticUnit[] {
+  return Array.from({ length: count }, (_, index) => ({
+    code: count > 1 ? `${prefix}${index + 1}` : prefix,
+    fueltech,
+    capacity,
+    emissionsFactor,
+    dispatchType: fueltech === "battery_charging" ? "LOAD" : "GENERATOR",
+    status,
+  }))
+}
+
+const FACILITIES: ISyntheticFacility[] = [
+  {
+    code: "BAYSW",
+    name: "Bayswater",
+    network: "NEM",
+    region: "NSW1",
+    npiId: "NSW0001",
+    location: { lat: -32.3953, lng: 150.9497 },
+    units: units("BW0", 4, "coal_black", 660, 0.89),
+  },
+  {
+    code: "LIDDELL",
+    name: "Liddell",
+    network: "NEM",
+    region: "NSW1",
+    npiId: "NSW0002",
+    location: { lat: -32.3718, lng: 150.9778 },
+    units: units("LD0", 4, "coal_black", 500, 0.97, "retired"),
+  },
+  {
+    code: "TALWA1",
+    name: "Tallawarra",
+    network: "NEM",
+    region: "NSW1",
+    npiId: "NSW0003",
+    location: { lat: -34.5236, lng: 150.8067 },
+    units: units("TALWA1", 1, "gas_ccgt", 440, 0.38),
+  },
+  {
+    code: "BANGOWF",
+    name: "Bango Wind Farm",
+    network: "NEM",
+    region: "NSW1",
+    npiId: null,
+    location: { lat: -34.7, lng: 148.9 },
+    units: units("BANGOWF", 1, "wind", 244),
+  },
+  {
+    code: "DARLSF",
+    name: "Darlington Point Solar Farm",
+    network: "NEM",
+    region: "NSW1",
+    npiId: null,
+    location: { lat: -34.6, lng: 146.1 },
+    units: units("DARLSF", 1, "solar_utility", 275),
+  },
+  {
+    code: "STAN",
+    name: "Stanwell",
+    network: "NEM",
+    region: "QLD1",
+    npiId: "QLD0001",
+    location: { lat: -23.5111, lng: 150.3181 },
+    units: units("STAN-", 4, "coal_black", 365, 0.85),
+  },
+  {
+    code: "WDGPH",
+    name: "Western Downs Green Power Hub",
+    network: "NEM",
+    region: "QLD1",
+    npiId: null,
+    location: { lat: -26.9, lng: 150.6 },
+    units: units("WDGPH", 1, "solar_utility", 400),
+  },
+  {
+    code: "HPR",
+    name: "Hornsdale Power Reserve",
+    network: "NEM",
+    region: "SA1",
+    npiId: null,
+    location: { lat: -33.0853, lng: 138.5225 },
+    units: [
+      ...units("HPRG1", 1, "battery_discharging", 150),
+      ...units("HPRL1", 1, "battery_charging", 120),
+    ],
+  },
+  {
+    code: "SNOWTWN",
+    name: "Snowtown Wind Farm",
+    network: "NEM",
+    region: "SA1",
+    npiId: null,
+    location: { lat: -33.7, lng: 138.1 },
+    units: units("SNOWTWN1", 1, "wind", 99),
+  },
+  {
+    code: "TORRB",
+    name: "Torrens Island B",
+    network: "NEM",
+    region: "SA1",
+    npiId: "SA0001",
+    location: { lat: -34.8, lng: 138.5 },
+    units: units("TORRB", 4, "gas_steam", 200, 0.6),
+  },
+  {
+    code: "GORDON",
+    name: "Gordon",
+    network: "NEM",
+    region: "TAS1",
+    npiId: null,
+    location: { lat: -42.7, lng: 145.9 },
+    units: units("GORDON", 1, "hydro", 432),
+  },
+  {
+    code: "LOYYB",
+    name: "Loy Yang B",
+    network: "NEM",
+    region: "VIC1",
+    npiId: "VIC0001",
+    location: { lat: -38.2544, lng: 146.5758 },
+    units: units("LOYYB", 2, "coal_brown", 580, 1.18),
+  },
+  {
+    code: "MURRAY",
+    name: "Murray",
+    network: "NEM",
+    region: "VIC1",
+    npiId: null,
+    location: { lat: -36.2, lng: 148.2 },
+    units: units("MURRAY", 1, "hydro", 1500),
+  },
+  {
+    code: "MACARTH",
+    name: "Macarthur Wind Farm",
+    network: "NEM",
+    region: "VIC1",
+    npiId: null,
+    location: { lat: -38.1, lng: 142.2 },
+    units: units("MACARTH1", 1, "wind", 420),
+  },
+  {
+    code: "COLLIE",
+    name: "Collie",
+    network: "WEM",
+    region: "WEM",
+    npiId: "WA0001",
+    location: { lat: -33.3397, lng: 116.2594 },
+    units: units("COLLIE_G1", 1, "coal_black", 340, 0.93),
+  },
+  {
+    code: "ALINTAWF",
+    name: "Alinta Wind Farm",
+    network: "WEM",
+    region: "WEM",
+    npiId: null,
+    location: { lat: -30.3, lng: 115.1 },
+    units: units("ALINTA_WWF", 1, "wind", 89),
+  },
+  {
+    code: "KWINANA_BESS",
+    name: "Kwinana Battery",
+    network: "WEM",
+    region: "WEM",
+    npiId: null,
+    location: { lat: -32.2, lng: 115.8 },
+    units: [
+      ...units("KWINANA_BESS1", 1, "battery_discharging", 100),
+      ...units("KWINANA_BESS2", 1, "battery_charging", 100),
+    ],
+  },
+]
+
+const FUELTECH_GROUPS: Partial<
+  Record<UnitFueltechType, UnitFueltechGroupType>
+> = {
+  coal_black: "coal",
+  coal_brown: "coal",
+  gas_ccgt: "gas",
+  gas_ocgt: "gas",
+  gas_steam: "gas",
+  wind: "wind",
+  solar_utility: "solar",
+  hydro: "hydro",
+  battery_charging: "battery_charging",
+  battery_discharging: "battery_discharging",
+}
+
+const RENEWABLE_GROUPS: UnitFueltechGroupType[] = [
+  "wind",
+  "solar",
+  "hydro",
+  "bioenergy",
+]
+
+export const DATA_METRIC_UNITS: Partial<Record<DataMetric, string>> = {
+  power: "MW",
+  energy: "MWh",
+  emissions: "t",
+  market_value: "$",
+}
+
+export const MARKET_METRIC_UNITS: Record<MarketMetric, string> = {
+  price: "$/MWh",
+  demand: "MW",
+  demand_energy: "MWh",
+  demand_gross: "MW",
+  demand_gross_energy: "MWh",
+  generation_renewable: "MW",
+  generation_renewable_energy: "MWh",
+  renewable_proportion: "%",
+  curtailment: "MW",
+  curtailment_energy: "MWh",
+  curtailment_solar_utility: "MW",
+  curtailment_solar_utility_energy: "MWh",
+  curtailment_wind: "MW",
+  curtailment_wind_energy: "MWh",
+  flow_imports: "MW",
+  flow_exports: "MW",
+  flow_imports_energy: "MWh",
+  flow_exports_energy: "MWh",
+}
+
+// Average price and the share of solar that pushes midday prices down
+const REGION_PRICES: Record<string, { base: number; solar: number }> = {
+  NSW1: { base: 95, solar: 0.5 },
+  QLD1: { base: 85, solar: 0.7 },
+  SA1: { base: 110, solar: 1 },
+  TAS1: { base: 70, solar: 0.1 },
+  VIC1: { base: 80, solar: 0.8 },
+  WEM: { base: 75, solar: 0.4 },
+}
+
+const DATE_FORMAT = "YYYY-MM-DDTHH:mm:ss"
+
+// Price cap and the chance of a spike in any 5-minute interval
+const MARKET_PRICE_CAP = 17500
+const SPIKE_PROBABILITY = { base: 0.002, evening: 0.03 }
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+function timezoneOffset(network: NetworkCode): string {
+  const hours = NETWORK_TIMEZONE_OFFSETS[network]
+  return `${hours >= 0 ? "+" : "-"}${String(Math.abs(hours)).padStart(2, "0")}:00`
+}
+
+/*
+ * Time buckets, all in naive network time
+ */
+
+function nextInterval(time: Dayjs, interval: DataInterval): Dayjs {
+  switch (interval) {
+    case "5m":
+      return time.add(5, "minute")
+    case "1h":
+      return time.add(1, "hour")
+    case "1d":
+      return time.add(1, "day")
+    case "7d":
+      return time.add(7, "day")
+    case "1M":
+      return time.add(1, "month")
+    case "3M":
+    case "season":
+      return time.add(3, "month")
+    case "1y":
+    case "fy":
+      return time.add(1, "year")
+  }
+}
+
+interface IBucket {
+  time: Dayjs
+  hours: number
+  samples: Dayjs[]
+}
+
+/**
+ * Times to sample within a bucket; long buckets cycle through the hours of the
+ * day so the daily profile averages out
+ */
+function sampleTimes(start: Dayjs, end: Dayjs): Dayjs[] {
+  const minutes = end.diff(start, "minute")
+  if (minutes <= 24 * 60) {
+    const count = Math.min(Math.max(1, Math.floor(minutes / 5)), 48)
+    return Array.from({ length: count }, (_, index) =>
+      start.add(Math.floor((index * minutes) / count / 5) * 5, "minute"),
+    )
+  }
+  return Array.from({ length: 48 }, (_, index) =>
+    start
+      .add(Math.floor((index * minutes) / 48 / 1440), "day")
+      .hour(index % 24)
+      .minute(30),
+  )
+}
+
+function buckets(options: ISyntheticRangeOptions): IBucket[] {
+  const interval = options.interval ?? "5m"
+  const end = dayjs.utc(stripTimezone(options.dateEnd))
+  const result: IBucket[] = []
+  for (
+    let time = floorInterval(
+      dayjs.utc(stripTimezone(options.dateStart)),
+      interval,
+    );
+    time.isBefore(end);
+    time = nextInterval(time, interval)
+  ) {
+    const next = nextInterval(time, interval)
+    result.push({
+      time,
+      hours: next.diff(time, "minute") / 60,
+      samples: sampleTimes(time, next),
+    })
+  }
+  return result
+}
+
+/*
+ * Seeded noise
+ */
+
+/**
+ * Hash the seed, a key and an integer slot to a number in [0, 1)
+ */
+function noise(seed: number, key: string, slot: number): number {
+  let hash = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b)
+  for (let index = 0; index < key.length; index++) {
+    hash = Math.imul(hash ^ key.charCodeAt(index), 0xcc9e2d51)
+  }
+  hash = Math.imul(hash ^ slot, 0x1b873593)
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x7feb352d)
+  hash ^= hash >>> 15
+  hash = Math.imul(hash, 0x846ca68b)
+  hash ^= hash >>> 16
+  return (hash >>> 0) / 4294967296
+}
+
+/**
+ * Noise that varies smoothly over periods of the given length in hours
+ */
+function smoothNoise(
+  seed: number,
+  key: string,
+  time: Dayjs,
+  hours: number,
+): number {
+  const position = time.valueOf() / (hours * 3600000)
+  const slot = Math.floor(position)
+  const weight = (1 - Math.cos(Math.PI * (position - slot))) / 2
+  return (
+    noise(seed, key, slot) * (1 - weight) + noise(seed, key, slot + 1) * weight
+  )
+}
+
+/*
+ * Generation and price model
+ */
+
+function hourOf(time: Dayjs): number {
+  return time.hour() + time.minute() / 60
+}
+
+function peak(hour: number, centre: number, width: number): number {
+  return Math.exp(-((hour - centre) ** 2) / (2 * width ** 2))
+}
+
+function daylight(time: Dayjs): number {
+  return Math.max(0, Math.sin((Math.PI * (hourOf(time) - 6)) / 12))
+}
+
+// 1 in mid January, -1 in mid July
+function summer(time: Dayjs): number {
+  const day = time.diff(time.startOf("year"), "day")
+  return Math.cos((2 * Math.PI * (day - 15)) / 365)
+}
+
+// Share of clear sky reaching solar farms in a region
+function clearSky(seed: number, region: string, time: Dayjs): number {
+  return 0.55 + 0.45 * smoothNoise(seed, `cloud:${region}`, time, 18)
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function fueltechGroup(
+  unit: ISyntheticUnit,
+): UnitFueltechGroupType | undefined {
+  return FUELTECH_GROUPS[unit.fueltech]
+}
+
+function isRenewable(unit: ISyntheticUnit): boolean {
+  const group = fueltechGroup(unit)
+  return group !== undefined && RENEWABLE_GROUPS.includes(group)
+}
+
+/**
+ * Output of a unit in MW
+ */
+function unitOutput(seed: number, unit: ISyntheticUnit, time: Dayjs): number {
+  const hour = hourOf(time)
+  const jitter = noise(seed, unit.code, Math.floor(time.valueOf() / 300000))
+
+  switch (fueltechGroup(unit)) {
+    case "coal": {
+      // Units are occasionally offline for a week
+      const week = Math.floor(time.valueOf() / (7 * 86400000))
+      if (noise(seed, `outage:${unit.code}`, week) < 0.04) return 0
+      return (
+        unit.capacity *
+        (0.72 +
+          0.08 * peak(hour, 18, 3) +
+          0.04 * summer(time) +
+          0.03 * (jitter - 0.5))
+      )
+    }
+    case "gas":
+      return (
+        unit.capacity * clamp(0.05 + 0.5 * peak(hour, 18.5, 2) + 0.1 * jitter)
+      )
+    case "wind": {
+      const weather = smoothNoise(seed, `wind:${unit.code}`, time, 48)
+      const gusts = smoothNoise(seed, `gust:${unit.code}`, time, 4)
+      return unit.capacity * clamp((0.6 * weather + 0.4 * gusts - 0.15) * 1.4)
+    }
+    case "solar":
+      return (
+        unit.capacity *
+        daylight(time) *
+        (0.8 + 0.15 * summer(time)) *
+        clearSky(seed, UNIT_REGIONS.get(unit) ?? "", time)
+      )
+    case "hydro":
+      return (
+        unit.capacity *
+        (0.08 + 0.45 * peak(hour, 18.5, 2.5) + 0.1 * peak(hour, 7.5, 1.5)) *
+        (0.8 + 0.4 * smoothNoise(seed, `water:${unit.code}`, time, 24))
+      )
+    case "battery_discharging":
+      return unit.capacity * 0.85 * peak(hour, 19, 1.5) * (0.7 + 0.3 * jitter)
+    case "battery_charging":
+      return unit.capacity * 0.7 * peak(hour, 12.5, 2) * (0.7 + 0.3 * jitter)
+    default:
+      return unit.capacity * 0.3
+  }
+}
+
+/**
+ * Spot price in $/MWh, with evening peaks, occasional spikes towards the
+ * market price cap and negative prices when solar floods the middle of the day
+ */
+function regionPrice(seed: number, region: string, time: Dayjs): number {
+  const { base, solar } = REGION_PRICES[region] ?? { base: 80, solar: 0.5 }
+  const hour = hourOf(time)
+  const slot = Math.floor(time.valueOf() / 300000)
+
+  const spikeChance =
+    SPIKE_PROBABILITY.base + SPIKE_PROBABILITY.evening * peak(hour, 18.5, 1.5)
+  if (noise(seed, `spike:${region}`, slot) < spikeChance) {
+    return Math.min(
+      MARKET_PRICE_CAP,
+      300 + 15000 * noise(seed, `spike-size:${region}`, slot) ** 3,
+    )
+  }
+
+  return (
+    base * (0.75 + 1.6 * peak(hour, 18.5, 1.5)) -
+    120 * solar * daylight(time) * clearSky(seed, region, time) +
+    16 * (noise(seed, `price:${region}`, slot) - 0.5)
+  )
+}
+
+interface IMarketSnapshot {
+  price: number
+  generation: number
+  renewable: number
+  demand: number
+  curtailmentSolar: number
+  curtailmentWind: number
+  imports: number
+  exports: number
+}
+
+function marketSnapshot(
+  seed: number,
+  regions: string[],
+  time: Dayjs,
+): IMarketSnapshot {
+  const snapshot: IMarketSnapshot = {
+    price: 0,
+    generation: 0,
+    renewable: 0,
+    demand: 0,
+    curtailmentSolar: 0,
+    curtailmentWind: 0,
+    imports: 0,
+    exports: 0,
+  }
+
+  for (const region of regions) {
+    const price = regionPrice(seed, region, time)
+    snapshot.price += price / regions.length
+
+    let generation = 0
+    for (const unit of operatingUnits("AU", { network_region: region })) {
+      const output = unitOutput(seed, unit, time)
+      if (unit.dispatchType === "LOAD") {
+        snapshot.demand -= output
+        continue
+      }
+      generation += output
+      if (isRenewable(unit)) snapshot.renewable += output
+      if (price < 0 && fueltechGroup(unit) === "solar")
+        snapshot.curtailmentSolar += output * 0.15
+      if (price < 0 && fueltechGroup(unit) === "wind")
+        snapshot.curtailmentWind += output * 0.1
+    }
+    snapshot.generation += generation
+    snapshot.demand += generation
+
+    // Only the NEM has interconnectors
+    if (region !== "WEM") {
+      snapshot.imports += 0.1 * generation * peak(hourOf(time), 19, 3)
+      snapshot.exports += 0.1 * generation * daylight(time)
+    }
+  }
+  return snapshot
+}
+
+function averageSnapshots(snapshots: IMarketSnapshot[]): IMarketSnapshot {
+  const average = { ...snapshots[0] }
+  for (const key of Object.keys(average) as (keyof IMarketSnapshot)[]) {
+    average[key] =
+      snapshots.reduce((sum, snapshot) => sum + snapshot[key], 0) /
+      snapshots.length
+  }
+  return average
+}
+
+function marketValue(
+  metric: MarketMetric,
+  snapshot: IMarketSnapshot,
+  hours: number,
+): number {
+  switch (metric) {
+    case "price":
+      return round(snapshot.price, 2)
+    case "demand":
+      return round(snapshot.demand)
+    case "demand_energy":
+      return round(snapshot.demand * hours)
+    case "demand_gross":
+      return round(snapshot.demand * 1.04)
+    case "demand_gross_energy":
+      return round(snapshot.demand * 1.04 * hours)
+    case "generation_renewable":
+      return round(snapshot.renewable)
+    case "generation_renewable_energy":
+      return round(snapshot.renewable * hours)
+    case "renewable_proportion":
+      return snapshot.generation > 0
+        ? round((snapshot.renewable / snapshot.generation) * 100, 2)
+        : 0
+    case "curtailment":
+      return round(snapshot.curtailmentSolar + snapshot.curtailmentWind)
+    case "curtailment_energy":
+      return round(
+        (snapshot.curtailmentSolar + snapshot.curtailmentWind) * hours,
+      )
+    case "curtailment_solar_utility":
+      return round(snapshot.curtailmentSolar)
+    case "curtailment_solar_utility_energy":
+      return round(snapshot.curtailmentSolar * hours)
+    case "curtailment_wind":
+      return round(snapshot.curtailmentWind)
+    case "curtailment_wind_energy":
+      return round(snapshot.curtailmentWind * hours)
+    case "flow_imports":
+      return round(snapshot.imports)
+    case "flow_exports":
+      return round(snapshot.exports)
+    case "flow_imports_energy":
+      return round(snapshot.imports * hours)
+    case "flow_exports_energy":
+      return round(snapshot.exports * hours)
+  }
+}
+
+/**
+ * Value of a data metric for a unit over a bucket
+ */
+function unitValue(
+  seed: number,
+  metric: DataMetric,
+  unit: ISyntheticUnit,
+  bucket: IBucket,
+): number {
+  const region = UNIT_REGIONS.get(unit) ?? ""
+  let power = 0
+  let revenue = 0
+  for (const time of bucket.samples) {
+    const output = unitOutput(seed, unit, time)
+    power += output / bucket.samples.length
+    revenue +=
+      (output * regionPrice(seed, region, time)) / bucket.samples.length
+  }
+
+  switch (metric) {
+    case "power":
+      return power
+    case "energy":
+      return power * bucket.hours
+    case "emissions":
+      return power * bucket.hours * (unit.emissionsFactor ?? 0)
+    default:
+      return revenue * bucket.hours
+  }
+}
+
+/*
+ * Catalogue lookups
+ */
+
+const UNIT_REGIONS = new Map(
+  FACILITIES.flatMap((facility) =>
+    facility.units.map((unit) => [unit, facility.region] as const),
+  ),
+)
+
+function networkFacilities(network: NetworkCode): ISyntheticFacility[] {
+  return FACILITIES.filter(
+    (facility) => network === "AU" || facility.network === network,
+  )
+}
+
+function operatingUnits(
+  network: NetworkCode,
+  filters: Omit<ISyntheticNetworkOptions, keyof ISyntheticRangeOptions> = {},
+): ISyntheticUnit[] {
+  return networkFacilities(network)
+    .filter(
+      (facility) =>
+        !filters.network_region || facility.region === filters.network_region,
+    )
+    .flatMap((facility) => facility.units)
+    .filter(
+      (unit) =>
+        unit.status === "operating" &&
+        (!filters.fueltech?.length ||
+          filters.fueltech.includes(unit.fueltech)) &&
+        (!filters.fueltech_group?.length ||
+          filters.fueltech_group.includes(fueltechGroup(unit) ?? "")),
+    )
+}
+
+function toUnit(unit: ISyntheticUnit): IUnit {
+  return {
+    code: unit.code,
+    fueltech_id: unit.fueltech,
+    status_id: unit.status,
+    capacity_registered: unit.capacity,
+    capacity_maximum: unit.capacity,
+    capacity_storage: unit.fueltech.startsWith("battery")
+      ? unit.capacity * 2
+      : null,
+    max_generation: round(unit.capacity * 0.98),
+    max_generation_interval: null,
+    emissions_factor_co2: unit.emissionsFactor,
+    data_first_seen: "2015-01-01T00:00:00+10:00",
+    data_last_seen:
+      unit.status === "retired" ? "2023-04-28T00:00:00+10:00" : null,
+    dispatch_type: unit.dispatchType,
+  }
+}
+
+/**
+ * Get the facilities synthetic data is generated for
+ */
+export function getSyntheticFacilities(): IFacility[] {
+  return FACILITIES.map((facility) => ({
+    code: facility.code,
+    name: facility.name,
+    network_id: facility.network,
+    network_region: facility.region,
+    description: null,
+    npi_id: facility.npiId,
+    location: facility.location,
+    units: facility.units.map(toUnit),
+  }))
+}
+
+/*
+ * Series builders
+ */
+
+function validateMetrics(metrics: string[], supported: string[]): void {
+  const invalid = metrics.filter((metric) => !supported.includes(metric))
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `Unsupported synthetic metrics: ${invalid.join(", ")}`,
+      undefined,
+      400,
+      {
+        error: `Unsupported synthetic metrics: ${invalid.join(", ")}`,
+        supported_metrics: supported,
+        requested_metrics: metrics,
+        invalid_metrics: invalid,
+      },
+    )
+  }
+}
+
+function series(
+  network: NetworkCode,
+  metric: DataMetric | MarketMetric,
+  unit: string,
+  options: ISyntheticRangeOptions,
+  groupings: (DataPrimaryGrouping | DataSecondaryGrouping)[],
+  results: ITimeSeriesResult[],
+): INetworkTimeSeries {
+  const offset = timezoneOffset(network)
+  return {
+    network_code: network,
+    metric,
+    unit,
+    interval: options.interval ?? "5m",
+    start: `${stripTimezone(options.dateStart)}${offset}`,
+    end: `${stripTimezone(options.dateEnd)}${offset}`,
+    groupings: groupings as DataSecondaryGrouping[],
+    results,
+    network_timezone_offset: offset,
+  }
+}
+
+function result(
+  name: string,
+  network: NetworkCode,
+  intervals: IBucket[],
+  columns: ITimeSeriesResult["columns"],
+  values: number[],
+): ITimeSeriesResult {
+  const offset = timezoneOffset(network)
+  const timestamps = intervals.map(
+    ({ time }) => `${time.format(DATE_FORMAT)}${offset}`,
+  )
+  return {
+    name,
+    date_start: timestamps[0],
+    date_end: timestamps[timestamps.length - 1],
+    columns,
+    data: timestamps.map((timestamp, index) => [timestamp, values[index]]),
+  }
+}
+
+interface IUnitGroup {
+  columns: ITimeSeriesResult["columns"]
+  units: ISyntheticUnit[]
+}
+
+/**
+ * Sum unit values into one result per group of columns
+ */
+function unitSeries(
+  network: NetworkCode,
+  metrics: DataMetric[],
+  options: ISyntheticRangeOptions,
+  groups: Map<string, IUnitGroup>,
+  groupings: (DataPrimaryGrouping | DataSecondaryGrouping)[],
+): INetworkTimeSeries[] {
+  const seed = options.seed ?? 1
+  const intervals = buckets(options)
+
+  return metrics.map((metric) =>
+    series(
+      network,
+      metric,
+      DATA_METRIC_UNITS[metric] ?? "",
+      options,
+      groupings,
+      intervals.length === 0
+        ? []
+        : [...groups].map(([name, { columns, units }]) =>
+            result(
+              `${metric}_${name}`,
+              network,
+              intervals,
+              columns,
+              intervals.map((bucket) =>
+                round(
+                  units.reduce(
+                    (sum, unit) => sum + unitValue(seed, metric, unit, bucket),
+                    0,
+                  ),
+                ),
+              ),
+            ),
+          ),
+    ),
+  )
+}
+
+function marketSeries(
+  network: NetworkCode,
+  metrics: MarketMetric[],
+  options: ISyntheticNetworkOptions,
+): INetworkTimeSeries[] {
+  const seed = options.seed ?? 1
+  const intervals = buckets(options)
+  const regions = NETWORK_REGIONS[network].filter(
+    (region) => !options.network_region || region === options.network_region,
+  )
+  const byRegion = options.primaryGrouping === "network_region"
+  const groups =
+    regions.length === 0 ? [] : byRegion ? regions.map((r) => [r]) : [regions]
+
+  const snapshots = groups.map((group) =>
+    intervals.map((bucket) =>
+      averageSnapshots(
+        bucket.samples.map((time) => marketSnapshot(seed, group, time)),
+      ),
+    ),
+  )
+
+  return metrics.map((metric) =>
+    series(
+      network,
+      metric,
+      MARKET_METRIC_UNITS[metric],
+      options,
+      byRegion ? ["network_region"] : [],
+      intervals.length === 0
+        ? []
+        : groups.map((group, index) =>
+            result(
+              byRegion ? `${metric}_${group[0]}` : metric,
+              network,
+              intervals,
+              byRegion ? { network_region: group[0] } : {},
+              snapshots[index].map((snapshot, bucket) =>
+                marketValue(metric, snapshot, intervals[bucket].hours),
+              ),
+            ),
+          ),
+    ),
+  )
+}
+
+function groupColumn(
+  grouping: DataSecondaryGrouping,
+  unit: ISyntheticUnit,
+): string | boolean {
+  switch (grouping) {
+    case "fueltech":
+      return unit.fueltech
+    case "fueltech_group":
+      return fueltechGroup(unit) ?? "other"
+    case "status":
+      return unit.status
+    case "renewable":
+      return isRenewable(unit)
+  }
+}
+
+/**
+ * Generate network data and market time series
+ *
+ * Network data metrics are summed over units and grouped like /data/network,
+ * market metrics are grouped by region like /market/network. Series without
+ * matching units or intervals have no results.
+ *
+ * @throws ValidationError for metrics that can't be generated, such as pollution
+ */
+export function generateNetworkTimeSeries(
+  network: NetworkCode,
+  metrics: (DataMetric | MarketMetric)[],
+  options: ISyntheticNetworkOptions,
+): INetworkTimeSeries[] {
+  validateMetrics(metrics, [
+    ...Object.keys(DATA_METRIC_UNITS),
+    ...Object.keys(MARKET_METRIC_UNITS),
+  ])
+
+  const primary = options.primaryGrouping ?? "network"
+  const secondary = options.secondaryGrouping ?? []
+  const groups = new Map<string, IUnitGroup>()
+  for (const unit of operatingUnits(network, options)) {
+    const columns: ITimeSeriesResult["columns"] = {}
+    if (primary === "network_region") {
+      columns.network_region = UNIT_REGIONS.get(unit) ?? ""
+    }
+    for (const grouping of secondary) {
+      columns[grouping] = groupColumn(grouping, unit)
+    }
+    const key = Object.values(columns).join("_") || network.toLowerCase()
+    const group = groups.get(key) ?? { columns, units: [] }
+    group.units.push(unit)
+    groups.set(key, group)
+  }
+
+  const dataMetrics = metrics.filter(
+    (metric): metric is DataMetric => metric in DATA_METRIC_UNITS,
+  )
+  const marketMetrics = metrics.filter(
+    (metric): metric is MarketMetric => metric in MARKET_METRIC_UNITS,
+  )
+  const generated = [
+    ...unitSeries(network, dataMetrics, options, groups, [
+      ...(primary === "network_region" ? ["network_region" as const] : []),
+      ...secondary,
+    ]),
+    ...marketSeries(network, marketMetrics, options),
+  ]
+  // Keep the requested metric order
+  const byMetric = new Map(generated.map((item) => [item.metric, item]))
+  return metrics.flatMap((metric) => byMetric.get(metric) ?? [])
+}
+
+/**
+ * Generate time series for facility units, one result per unit like
+ * /data/facilities
+ *
+ * @throws ValidationError for metrics that can't be generated
+ */
+export function generateFacilityTimeSeries(
+  network: NetworkCode,
+  metrics: DataMetric[],
+  options: ISyntheticFacilityOptions,
+): INetworkTimeSeries[] {
+  validateMetrics(metrics, Object.keys(DATA_METRIC_UNITS))
+
+  const groups = new Map<string, IUnitGroup>()
+  for (const facility of networkFacilities(network)) {
+    if (
+      options.facilityCodes?.length &&
+      !options.facilityCodes.includes(facility.code)
+    ) {
+      continue
+    }
+    for (const unit of facility.units) {
+      if (unit.status !== "operating") continue
+      if (options.unitCodes?.length && !options.unitCodes.includes(unit.code))
+        continue
+      groups.set(unit.code, {
+        columns: { unit_code: unit.code },
+        units: [unit],
+      })
+    }
+  }
+  return unitSeries(network, metrics, options, groups, [])
+}
@@ -18,8 +18,14 @@ export type DataInterval =
   | "season"
   | "1y"
   | "fy"
+/** Intervals a DataTable can be resampled to */
+export type ResampleInterval = DataInterval | "30m"
 export type DataPrimaryGrouping = "network" | "network_region"
-export type DataSecondaryGrouping = "fueltech" | "fueltech_group" | "renewable"
+export type DataSecondaryGrouping =
+  | "fueltech"
+  | "fueltech_group"
+  | "status"
+  | "renewable"
 
 // Metric Types
 export type DataMetric =
@@ -80,9 +86,15 @@ export type UnitFueltechType =
   | "solar_thermal"
   | "solar_utility"
   | "nuclear"
+  | "other"
+  | "solar"
   | "wind"
   | "wind_offshore"
+  | "imports"
+  | "exports"
   | "interconnector"
+  | "aggregator_vpp"
+  | "aggregator_dr"
 
 // Enum object for fuel technologies
 export const FuelTech = {
@@ -105,9 +117,15 @@ export const FuelTech = {
   SOLAR_THERMAL: "solar_thermal" as UnitFueltechType,
   SOLAR_UTILITY: "solar_utility" as UnitFueltechType,
   NUCLEAR: "nuclear" as UnitFueltechType,
+  OTHER: "other" as UnitFueltechType,
+  SOLAR: "solar" as UnitFueltechType,
   WIND: "wind" as UnitFueltechType,
   WIND_OFFSHORE: "wind_offshore" as UnitFueltechType,
+  IMPORTS: "imports" as UnitFueltechType,
+  EXPORTS: "exports" as UnitFueltechType,
   INTERCONNECTOR: "interconnector" as UnitFueltechType,
+  AGGREGATOR_VPP: "aggregator_vpp" as UnitFueltechType,
+  AGGREGATOR_DR: "aggregator_dr" as UnitFueltechType,
 } as const
 
 export type UnitFueltechGroupType =
@@ -216,6 +234,13 @@ export interface IValidationErrorDetail {
   [key: string]: unknown
 }
 
+export interface ISchemaIssue {
+  /** Path to the offending value, e.g. data[0].results[1].date_start */
+  path: string
+  expected: string
+  received: string
+}
+
 export interface IMetricMetadata {
   name: string
   unit: string
@@ -227,19 +252,18 @@ export interface IMetricMetadata {
 export interface IMetricsResponse {
   metrics: Record<string, IMetricMetadata>
   total: number
-  endpoints: {
-    market: string[]
-    data: string[]
-  }
+  endpoints: Record<MetricEndpoint, string[]>
 }
 
+export type MetricEndpoint = "market" | "data"
+
 export interface IAPIResponse<T> {
   version: string
   created_at: string
   success: boolean
   error: string | null
   data: T
-  total_records?: number
+  total_records?: number | null
 }
 
 // Time Series Types
@@ -290,11 +314,32 @@ export interface IFacilityDataSeries {
 }
 
 // Request Parameters
+export interface IRequestOptions {
+  /** Cancel the request; an aborted request throws AbortError */
+  signal?: AbortSignal
+  /** Timeout in milliseconds for each API request, overriding the client default (0 disables) */
+  timeoutMs?: number
+}
+
+export interface IIterateOptions extends IRequestOptions {
+  /** Yield individual rows instead of a DataTable per chunk */
+  rows?: boolean
+}
+
+export interface IChunkOptions {
+  /** Maximum number of chunk requests in flight at once (default 3) */
+  concurrency?: number
+  /** Override the number of days per chunk */
+  maxDays?: number
+}
+
 export interface IFacilityTimeSeriesParams {
   interval?: DataInterval
   dateStart?: string
   dateEnd?: string
   unitCodes?: string | string[]
+  /** Split long date ranges into multiple API-legal requests and merge the results */
+  chunk?: boolean | IChunkOptions
 }
 
 export interface IMarketTimeSeriesParams extends IFacilityTimeSeriesParams {
@@ -363,6 +408,14 @@ export interface ITimeSeriesResponse {
   datatable?: DataTable
 }
 
+export interface IFacilityDetailResponse {
+  response: IAPIResponse<INetworkTimeSeries[]>
+  /** Facility metadata including its units */
+  facility: IFacility
+  /** Time series joined with the attributes of each unit */
+  datatable: DataTable
+}
+
 export interface IEmptyFacilityResponse {
   response: {
     version: string
@@ -386,6 +439,13 @@ export type UserPlan = "BASIC" | "PRO" | "ENTERPRISE"
 
 export interface IUserMeta {
   remaining: number
+  reset?: string | null
+}
+
+export interface IUserRateLimit {
+  limit: number
+  remaining: number
+  reset: string | number
 }
 
 export interface IUser {
@@ -395,4 +455,5 @@ export interface IUser {
   owner_id: string
   plan: UserPlan
   meta: IUserMeta
+  rate_limit?: IUserRateLimit | null
 }
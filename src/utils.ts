@@ -3,9 +3,15 @@
  */
 
 // Declare global variables to avoid TypeScript errors
-declare const process: { env?: { NODE_ENV?: string } } | undefined
+declare const process:
+  | { env?: { NODE_ENV?: string; OPENELECTRICITY_LOG_LEVEL?: string } }
+  | undefined
 declare const window: { location?: { hostname: string } } | undefined
-declare const console: { log: (message: string, ...args: unknown[]) => void }
+declare const console: {
+  log: (message: string, ...args: unknown[]) => void
+  warn: (message: string, ...args: unknown[]) => void
+  error: (message: string, ...args: unknown[]) => void
+}
 
 /**
  * Safely detect if we're in a development environment
@@ -52,12 +58,138 @@ const isDevelopment = ((): boolean => {
   return false
 })()
 
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export type LogFields = Record<string, unknown>
+
+/**
+ * Structured logger; adapt pino, winston or similar to this shape
+ */
+export interface ILogger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+}
+
+export const REDACTED = "[REDACTED]"
+
+// Field names whose values are always redacted
+const SECRET_FIELD = /^(authorization|api[-_]?key)$/i
+
+function defaultLogLevel(): LogLevel {
+  const level =
+    typeof process !== "undefined"
+      ? process?.env?.OPENELECTRICITY_LOG_LEVEL
+      : undefined
+  if (level && level in LOG_LEVELS) return level as LogLevel
+  return isDevelopment ? "debug" : "warn"
+}
+
+/**
+ * Create a logger that writes to the console, skipping messages below the
+ * level. The level defaults to OPENELECTRICITY_LOG_LEVEL if set, otherwise
+ * debug in development and warn elsewhere.
+ */
+export function createConsoleLogger(
+  level: LogLevel = defaultLogLevel(),
+): ILogger {
+  const log =
+    (messageLevel: LogLevel) => (message: string, fields?: LogFields) => {
+      if (LOG_LEVELS[messageLevel] < LOG_LEVELS[level]) return
+      const method =
+        messageLevel === "warn" || messageLevel === "error"
+          ? messageLevel
+          : "log"
+      console[method](`[OpenElectricity] ${message}`, fields ?? "")
+    }
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  }
+}
+
+/**
+ * Logger used when the client isn't given one
+ */
+export const defaultLogger: ILogger = createConsoleLogger()
+
+/**
+ * Match a secret only as a whole token, so a short key isn't replaced inside
+ * ordinary words
+ */
+function secretPattern(secret: string): RegExp {
+  const escaped = secret.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, "g")
+}
+
+function redactString(value: string, secrets: string[]): string {
+  let result = value.replace(/Bearer\s+[^\s"',]+/gi, `Bearer ${REDACTED}`)
+  for (const secret of secrets) {
+    if (secret) result = result.replace(secretPattern(secret), REDACTED)
+  }
+  return result
+}
+
+/**
+ * Copy a value for logging with credentials removed: Authorization and API
+ * key fields, bearer tokens and the given secrets inside strings
+ */
+export function redact(
+  value: unknown,
+  secrets: string[] = [],
+  seen = new WeakSet<object>(),
+): unknown {
+  if (typeof value === "string") return redactString(value, secrets)
+  if (typeof value !== "object" || value === null) return value
+  if (seen.has(value)) return "[Circular]"
+  seen.add(value)
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, secrets, seen))
+  }
+  if (typeof Headers !== "undefined" && value instanceof Headers) {
+    const headers: Record<string, string> = {}
+    value.forEach((field, key) => {
+      headers[key] = field
+    })
+    return redact(headers, secrets, seen)
+  }
+
+  // Leave errors, dates and other class instances as they are
+  const prototype = Object.getPrototypeOf(value)
+  if (prototype !== Object.prototype && prototype !== null) return value
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SECRET_FIELD.test(key) ? REDACTED : redact(field, secrets, seen),
+    ]),
+  )
+}
+
 /**
- * Debug logging function
- * Only logs in development mode
+ * Wrap a logger so every message and its fields are redacted first
  */
-export function debug(message: string, data?: unknown): void {
-  if (isDevelopment) {
-    console.log(`[OpenElectricity] ${message}`, data ? data : "")
+export function withRedaction(logger: ILogger, secrets: string[]): ILogger {
+  const wrap = (level: LogLevel) => (message: string, fields?: LogFields) =>
+    logger[level](
+      redactString(message, secrets),
+      fields && (redact(fields, secrets) as LogFields),
+    )
+  return {
+    debug: wrap("debug"),
+    info: wrap("info"),
+    warn: wrap("warn"),
+    error: wrap("error"),
   }
 }
@@ -0,0 +1,203 @@
+/**
+ * Client-side parameter validation
+ *
+ * Catches invalid parameter combinations before a request is made, so callers
+ * get a ValidationError with a clear hint instead of waiting on a round trip.
+ */
+
+import dayjs from "dayjs"
+import utc from "dayjs/plugin/utc"
+
+import { MAX_DAYS_PER_REQUEST } from "./chunking"
+import { NETWORK_REGIONS } from "./config"
+import { stripTimezone } from "./datetime"
+import { ValidationError } from "./errors"
+import type {
+  DataMetric,
+  IFacilityPollutionParams,
+  IFacilityTimeSeriesParams,
+  IMarketTimeSeriesParams,
+  INetworkTimeSeriesParams,
+  MarketMetric,
+  NetworkCode,
+} from "./types"
+
+dayjs.extend(utc)
+
+export interface IValidationOptions {
+  /**
+   * Reject date ranges longer than MAX_DAYS_PER_REQUEST allows for the
+   * interval unless they are chunked (default false)
+   */
+  rangeLimits?: boolean
+}
+
+function fail(message: string, hint: string): never {
+  throw new ValidationError(`${message} (${hint})`, undefined, 400, {
+    error: message,
+    hint,
+  })
+}
+
+function validateNetwork(networkCode: NetworkCode): void {
+  if (!(networkCode in NETWORK_REGIONS)) {
+    fail(
+      `Unknown network: ${networkCode}`,
+      `Use one of ${Object.keys(NETWORK_REGIONS).join(", ")}`,
+    )
+  }
+}
+
+function validateMetrics(metrics: string[]): void {
+  if (metrics.length === 0) {
+    fail("No metrics requested", "Request at least one metric")
+  }
+}
+
+function validateDateRange(
+  params: { dateStart?: string; dateEnd?: string },
+  interval?: IFacilityTimeSeriesParams["interval"],
+  rangeLimits = false,
+): void {
+  const start = params.dateStart
+    ? dayjs.utc(stripTimezone(params.dateStart))
+    : undefined
+  const end = params.dateEnd
+    ? dayjs.utc(stripTimezone(params.dateEnd))
+    : undefined
+
+  if (start && !start.isValid()) {
+    fail(
+      `Invalid dateStart: ${params.dateStart}`,
+      "Use an ISO 8601 date such as 2024-01-01T00:00:00",
+    )
+  }
+  if (end && !end.isValid()) {
+    fail(
+      `Invalid dateEnd: ${params.dateEnd}`,
+      "Use an ISO 8601 date such as 2024-01-01T00:00:00",
+    )
+  }
+  if (!start || !end) return
+
+  if (start.isAfter(end)) {
+    fail(
+      `dateStart (${params.dateStart}) is after dateEnd (${params.dateEnd})`,
+      "Swap the dates or correct the range",
+    )
+  }
+
+  if (!rangeLimits) return
+  // The API defaults to 5 minute data when no interval is given
+  const maxDays = MAX_DAYS_PER_REQUEST[interval ?? "5m"]
+  if (end.diff(start, "day", true) > maxDays) {
+    fail(
+      `Date range exceeds ${maxDays} days for the ${interval ?? "5m"} interval`,
+      "Use a coarser interval or set chunk: true to split the range",
+    )
+  }
+}
+
+function validateInterval(interval?: string): void {
+  if (interval && !(interval in MAX_DAYS_PER_REQUEST)) {
+    fail(
+      `Unknown interval: ${interval}`,
+      `Use one of ${Object.keys(MAX_DAYS_PER_REQUEST).join(", ")}`,
+    )
+  }
+}
+
+function validateRegion(networkCode: NetworkCode, region?: string): void {
+  const regions = NETWORK_REGIONS[networkCode]
+  if (region && !regions.includes(region)) {
+    fail(
+      `Unknown network_region ${region} for network ${networkCode}`,
+      `Use one of ${regions.join(", ")}`,
+    )
+  }
+}
+
+function validateTimeSeriesParams(
+  networkCode: NetworkCode,
+  metrics: string[],
+  params: IFacilityTimeSeriesParams,
+  options: IValidationOptions,
+): void {
+  validateNetwork(networkCode)
+  validateMetrics(metrics)
+  validateInterval(params.interval)
+  validateDateRange(
+    params,
+    params.interval,
+    Boolean(options.rangeLimits && !params.chunk),
+  )
+}
+
+/**
+ * Validate parameters for getNetworkData
+ *
+ * @throws ValidationError with a hint describing how to fix the request
+ */
+export function validateNetworkDataParams(
+  networkCode: NetworkCode,
+  metrics: DataMetric[],
+  params: INetworkTimeSeriesParams,
+  options: IValidationOptions = {},
+): void {
+  validateTimeSeriesParams(networkCode, metrics, params, options)
+  validateRegion(networkCode, params.network_region)
+
+  if (metrics.includes("pollution")) {
+    fail(
+      "The pollution metric is not available from the network data endpoint",
+      "Use getFacilityPollution for pollution data",
+    )
+  }
+}
+
+/**
+ * Validate parameters for getMarket
+ *
+ * @throws ValidationError with a hint describing how to fix the request
+ */
+export function validateMarketParams(
+  networkCode: NetworkCode,
+  metrics: MarketMetric[],
+  params: IMarketTimeSeriesParams,
+  options: IValidationOptions = {},
+): void {
+  validateTimeSeriesParams(networkCode, metrics, params, options)
+  validateRegion(networkCode, params.network_region)
+
+  if ("secondaryGrouping" in params && params.secondaryGrouping) {
+    fail(
+      "secondaryGrouping is not supported by the market endpoint",
+      "Use getNetworkData for fueltech or renewable groupings",
+    )
+  }
+}
+
+/**
+ * Validate parameters for getFacilityData
+ *
+ * @throws ValidationError with a hint describing how to fix the request
+ */
+export function validateFacilityDataParams(
+  networkCode: NetworkCode,
+  metrics: DataMetric[],
+  params: IFacilityTimeSeriesParams,
+  options: IValidationOptions = {},
+): void {
+  validateTimeSeriesParams(networkCode, metrics, params, options)
+}
+
+/**
+ * Validate parameters for getFacilityPollution
+ *
+ * @throws ValidationError with a hint describing how to fix the request
+ */
+export function validatePollutionParams(
+  params: IFacilityPollutionParams,
+): void {
+  validateDateRange(params)
+}
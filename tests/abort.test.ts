@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  AbortError,
+  OpenElectricityClient,
+  OpenElectricityError,
+  RequestTimeoutError,
+} from "../src/client"
+
+// Mock fetch
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch as unknown as typeof fetch
+
+const mockUser = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: { id: "user_1" },
+}
+
+/**
+ * A fetch that never resolves until its signal is aborted
+ */
+function hangingFetch(_url: string, init: RequestInit): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    const abort = () =>
+      reject(new DOMException("The operation was aborted", "AbortError"))
+    if (init.signal?.aborted) abort()
+    init.signal?.addEventListener("abort", abort)
+  })
+}
+
+describe("request cancellation", () => {
+  let client: OpenElectricityClient
+
+  beforeEach(() => {
+    client = new OpenElectricityClient({ apiKey: "test-key" })
+    vi.clearAllMocks()
+  })
+
+  it("passes a signal to fetch", async () => {
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(mockUser),
+      }),
+    )
+
+    await client.getCurrentUser()
+    expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal)
+  })
+
+  it("throws RequestTimeoutError when the per-call timeout elapses", async () => {
+    mockFetch.mockImplementationOnce(hangingFetch)
+
+    const error = await client
+      .getMarket("NEM", ["price"], { interval: "1h" }, { timeoutMs: 10 })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(RequestTimeoutError)
+    expect(error).toBeInstanceOf(OpenElectricityError)
+    expect((error as RequestTimeoutError).timeoutMs).toBe(10)
+  })
+
+  it("applies the client default timeout", async () => {
+    client = new OpenElectricityClient({ apiKey: "test-key", timeoutMs: 10 })
+    mockFetch.mockImplementationOnce(hangingFetch)
+
+    await expect(client.getFacilities()).rejects.toBeInstanceOf(
+      RequestTimeoutError,
+    )
+  })
+
+  it("throws AbortError when the signal is aborted", async () => {
+    mockFetch.mockImplementationOnce(hangingFetch)
+    const controller = new AbortController()
+
+    const promise = client.getNetworkData(
+      "NEM",
+      ["power"],
+      {},
+      { signal: controller.signal },
+    )
+    controller.abort()
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError)
+  })
+
+  it("does not call fetch with an already aborted signal", async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      client.getCurrentUser({ signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AbortError)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it("stops waiting between retries when aborted", async () => {
+    client = new OpenElectricityClient({
+      apiKey: "test-key",
+      retry: { baseDelayMs: 60000, jitter: false },
+    })
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        json: () => Promise.resolve({}),
+      }),
+    )
+    const controller = new AbortController()
+
+    const promise = client.getCurrentUser({ signal: controller.signal })
+    setTimeout(() => controller.abort(), 10)
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
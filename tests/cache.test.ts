@@ -0,0 +1,222 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { getCacheKey, getCacheTtl, MemoryCache } from "../src/cache"
+import { OpenElectricityClient } from "../src/client"
+import { FileSystemCache } from "../src/node"
+
+// Mock fetch
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch as unknown as typeof fetch
+
+const mockResponse = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: [
+    {
+      network_code: "NEM",
+      metric: "price",
+      unit: "$/MWh",
+      interval: "1h",
+      start: "2024-01-01T00:00:00",
+      end: "2024-01-02T00:00:00",
+      groupings: ["network_region"],
+      results: [
+        {
+          name: "nem_nsw1_price",
+          date_start: "2024-01-01T00:00:00",
+          date_end: "2024-01-02T00:00:00",
+          columns: { network_region: "NSW1" },
+          data: [["2024-01-01T00:00:00+10:00", 100]],
+        },
+      ],
+      network_timezone_offset: "+10:00",
+    },
+  ],
+}
+
+function mockFetchResponse(data: unknown): Promise<Response> {
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(data),
+  } as Response)
+}
+
+describe("getCacheKey", () => {
+  it("ignores query parameter order", () => {
+    expect(getCacheKey("https://api/v4/market/network/NEM?b=2&a=1&a=0")).toBe(
+      getCacheKey("https://api/v4/market/network/NEM?a=0&a=1&b=2"),
+    )
+    expect(getCacheKey("https://api/v4/me")).toBe("https://api/v4/me")
+    expect(getCacheKey("https://api/v4/me", "abc")).toBe(
+      "abc:https://api/v4/me",
+    )
+  })
+})
+
+describe("getCacheTtl", () => {
+  const now = Date.parse("2024-06-01T02:00:00Z") // 12:00 AEST
+
+  it("caches closed historical windows indefinitely", () => {
+    expect(
+      getCacheTtl(
+        "/market/network/NEM?interval=5m&date_end=2024-01-02T00:00:00",
+        now,
+      ),
+    ).toBeUndefined()
+  })
+
+  it("uses an interval based TTL for windows touching now", () => {
+    expect(
+      getCacheTtl(
+        "/market/network/NEM?interval=5m&date_end=2024-06-01T13:00:00",
+        now,
+      ),
+    ).toBe(60 * 1000)
+    expect(getCacheTtl("/data/network/NEM?interval=1h", now)).toBe(
+      5 * 60 * 1000,
+    )
+  })
+
+  it("applies the network timezone to date_end", () => {
+    // 11:00 AWST is 03:00 UTC, after now
+    expect(
+      getCacheTtl(
+        "/data/network/WEM?interval=1d&date_end=2024-06-01T11:00:00",
+        now,
+      ),
+    ).toBe(15 * 60 * 1000)
+    // 11:00 AEST is 01:00 UTC, before now
+    expect(
+      getCacheTtl(
+        "/data/network/NEM?interval=1d&date_end=2024-06-01T11:00:00",
+        now,
+      ),
+    ).toBeUndefined()
+  })
+
+  it("never caches the current user", () => {
+    expect(getCacheTtl("/me", now)).toBeNull()
+  })
+})
+
+describe("MemoryCache", () => {
+  it("evicts the least recently used entry", async () => {
+    const cache = new MemoryCache({ maxEntries: 2 })
+    await cache.set("a", "1")
+    await cache.set("b", "2")
+    await cache.get("a")
+    await cache.set("c", "3")
+
+    expect(await cache.get("a")).toBe("1")
+    expect(await cache.get("b")).toBeUndefined()
+    expect(await cache.get("c")).toBe("3")
+  })
+
+  it("expires entries after their TTL", async () => {
+    vi.useFakeTimers()
+    const cache = new MemoryCache()
+    await cache.set("a", "1", 1000)
+    expect(await cache.get("a")).toBe("1")
+    vi.advanceTimersByTime(1001)
+    expect(await cache.get("a")).toBeUndefined()
+    vi.useRealTimers()
+  })
+})
+
+describe("FileSystemCache", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "openelectricity-cache-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("stores, expires and deletes entries", async () => {
+    const cache = new FileSystemCache({ directory })
+    await cache.set("key", "value")
+    await cache.set("expired", "value", -1)
+
+    expect(await cache.get("key")).toBe("value")
+    expect(await cache.get("expired")).toBeUndefined()
+    expect(await cache.get("missing")).toBeUndefined()
+
+    await cache.delete("key")
+    expect(await cache.get("key")).toBeUndefined()
+  })
+})
+
+describe("OpenElectricityClient cache", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("serves repeated historical requests from the cache", async () => {
+    const cache = new MemoryCache()
+    const client = new OpenElectricityClient({ apiKey: "test-key", cache })
+    mockFetch.mockImplementationOnce(() => mockFetchResponse(mockResponse))
+
+    const params = {
+      interval: "1h" as const,
+      dateStart: "2024-01-01T00:00:00",
+      dateEnd: "2024-01-02T00:00:00",
+    }
+    const first = await client.getMarket("NEM", ["price"], params)
+    const second = await client.getMarket("NEM", ["price"], params)
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(cache.size).toBe(1)
+    expect(second.response).toEqual(first.response)
+    expect(second.datatable?.getRows()).toHaveLength(1)
+    expect(second.datatable).not.toBe(first.datatable)
+  })
+
+  it("keeps entries for different API keys apart", async () => {
+    const cache = new MemoryCache()
+    const params = {
+      interval: "1h" as const,
+      dateStart: "2024-01-01T00:00:00",
+      dateEnd: "2024-01-02T00:00:00",
+    }
+    mockFetch
+      .mockImplementationOnce(() => mockFetchResponse(mockResponse))
+      .mockImplementationOnce(() => mockFetchResponse(mockResponse))
+
+    const first = new OpenElectricityClient({ apiKey: "key-one", cache })
+    const second = new OpenElectricityClient({ apiKey: "key-two", cache })
+    await first.getMarket("NEM", ["price"], params)
+    await second.getMarket("NEM", ["price"], params)
+    await first.getMarket("NEM", ["price"], params)
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(cache.size).toBe(2)
+    const keys = Array.from(
+      (cache as unknown as { entries: Map<string, unknown> }).entries.keys(),
+    )
+    expect(keys.join()).not.toContain("key-one")
+  })
+
+  it("does not cache the current user", async () => {
+    const cache = new MemoryCache()
+    const client = new OpenElectricityClient({ apiKey: "test-key", cache })
+    const user = { ...mockResponse, data: { id: "user_1" } }
+    mockFetch
+      .mockImplementationOnce(() => mockFetchResponse(user))
+      .mockImplementationOnce(() => mockFetchResponse(user))
+
+    await client.getCurrentUser()
+    await client.getCurrentUser()
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(cache.size).toBe(0)
+  })
+})
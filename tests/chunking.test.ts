@@ -0,0 +1,271 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  mapWithConcurrency,
+  mergeTimeSeriesResponses,
+  splitDateRange,
+} from "../src/chunking"
+import { NoDataFound, OpenElectricityClient } from "../src/client"
+import type { IAPIResponse, INetworkTimeSeries } from "../src/types"
+
+// Mock fetch
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch as unknown as typeof fetch
+
+function mockSeriesResponse(
+  metric: "power" | "price",
+  points: [string, number][],
+): IAPIResponse<INetworkTimeSeries[]> {
+  return {
+    version: "4.0.1",
+    created_at: "2024-01-01T00:00:00",
+    success: true,
+    error: null,
+    data: [
+      {
+        network_code: "NEM",
+        metric,
+        unit: metric === "power" ? "MW" : "$/MWh",
+        interval: "5m",
+        start: points[0][0],
+        end: points[points.length - 1][0],
+        groupings: ["network_region"],
+        results: [
+          {
+            name: `${metric}_NSW1`,
+            date_start: points[0][0],
+            date_end: points[points.length - 1][0],
+            columns: { network_region: "NSW1" },
+            data: points,
+          },
+        ],
+        network_timezone_offset: "+10:00",
+      },
+    ],
+  }
+}
+
+function mockFetchResponse(data: unknown): Promise<Response> {
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(data),
+  } as Response)
+}
+
+describe("splitDateRange", () => {
+  it("splits 5m ranges into weekly windows", () => {
+    const windows = splitDateRange(
+      "2024-01-01T00:00:00",
+      "2024-01-20T00:00:00",
+      "5m",
+    )
+    expect(windows).toEqual([
+      { dateStart: "2024-01-01T00:00:00", dateEnd: "2024-01-08T00:00:00" },
+      { dateStart: "2024-01-08T00:00:00", dateEnd: "2024-01-15T00:00:00" },
+      { dateStart: "2024-01-15T00:00:00", dateEnd: "2024-01-20T00:00:00" },
+    ])
+  })
+
+  it("returns a single window for short ranges", () => {
+    expect(
+      splitDateRange("2024-01-01T00:00:00", "2024-03-01T00:00:00", "1d"),
+    ).toHaveLength(1)
+  })
+
+  it("honours a custom window size", () => {
+    expect(
+      splitDateRange("2024-01-01T00:00:00", "2024-01-05T00:00:00", "1h", 1),
+    ).toHaveLength(4)
+  })
+})
+
+describe("mapWithConcurrency", () => {
+  it("limits in-flight calls and preserves order", async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const results = await mapWithConcurrency(
+      [1, 2, 3, 4, 5],
+      2,
+      async (item) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        inFlight--
+        return item * 10
+      },
+    )
+    expect(results).toEqual([10, 20, 30, 40, 50])
+    expect(maxInFlight).toBe(2)
+  })
+
+  it("stops after the first failure and aborts calls in flight", async () => {
+    const started: number[] = []
+    const aborted: number[] = []
+    const error = await mapWithConcurrency(
+      [1, 2, 3, 4, 5],
+      2,
+      (item, _index, signal) => {
+        started.push(item)
+        if (item === 1) return Promise.reject(new Error("window failed"))
+        return new Promise((resolve) => {
+          signal.addEventListener("abort", () => {
+            aborted.push(item)
+            resolve(item)
+          })
+        })
+      },
+    ).catch((e) => e)
+
+    expect((error as Error).message).toBe("window failed")
+    expect(started).toEqual([1, 2])
+    expect(aborted).toEqual([2])
+  })
+
+  it("aborts when the caller's signal aborts", async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const fn = vi.fn(async () => 1)
+
+    await expect(
+      mapWithConcurrency([1, 2], 1, fn, controller.signal),
+    ).rejects.toBeDefined()
+    expect(fn).not.toHaveBeenCalled()
+  })
+})
+
+describe("mergeTimeSeriesResponses", () => {
+  it("merges results by metric and columns and de-duplicates points", () => {
+    const merged = mergeTimeSeriesResponses([
+      mockSeriesResponse("power", [
+        ["2024-01-01T00:00:00+10:00", 1],
+        ["2024-01-01T00:05:00+10:00", 2],
+      ]),
+      mockSeriesResponse("power", [
+        ["2024-01-01T00:05:00+10:00", 3],
+        ["2024-01-01T00:10:00+10:00", 4],
+      ]),
+    ])
+
+    expect(merged.data).toHaveLength(1)
+    expect(merged.data[0].results).toHaveLength(1)
+    expect(merged.data[0].results[0].data).toEqual([
+      ["2024-01-01T00:00:00+10:00", 1],
+      ["2024-01-01T00:05:00+10:00", 3],
+      ["2024-01-01T00:10:00+10:00", 4],
+    ])
+    expect(merged.data[0].start).toBe("2024-01-01T00:00:00+10:00")
+    expect(merged.data[0].end).toBe("2024-01-01T00:10:00+10:00")
+  })
+
+  it("counts the merged records instead of adding up windows", () => {
+    const windows = [
+      mockSeriesResponse("power", [["2024-01-01T00:00:00+10:00", 1]]),
+      mockSeriesResponse("power", [["2024-01-01T00:05:00+10:00", 2]]),
+    ].map((response) => ({ ...response, total_records: 1 }))
+
+    expect(mergeTimeSeriesResponses(windows).total_records).toBe(1)
+    expect(
+      mergeTimeSeriesResponses([
+        mockSeriesResponse("power", [["2024-01-01T00:00:00+10:00", 1]]),
+      ]),
+    ).not.toHaveProperty("total_records")
+  })
+})
+
+describe("OpenElectricityClient chunking", () => {
+  let client: OpenElectricityClient
+
+  beforeEach(() => {
+    client = new OpenElectricityClient({ apiKey: "test-key", retry: false })
+    vi.clearAllMocks()
+  })
+
+  it("fetches each window and returns a single DataTable", async () => {
+    mockFetch
+      .mockImplementationOnce(() =>
+        mockFetchResponse(
+          mockSeriesResponse("power", [["2024-01-01T00:00:00+10:00", 1]]),
+        ),
+      )
+      .mockImplementationOnce(() =>
+        mockFetchResponse(
+          mockSeriesResponse("power", [["2024-01-08T00:00:00+10:00", 2]]),
+        ),
+      )
+
+    const result = await client.getNetworkData("NEM", ["power"], {
+      interval: "5m",
+      dateStart: "2024-01-01T00:00:00",
+      dateEnd: "2024-01-10T00:00:00",
+      chunk: { concurrency: 1 },
+    })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    const urls = mockFetch.mock.calls.map(([url]) => new URL(url as string))
+    expect(urls[0].searchParams.get("date_end")).toBe("2024-01-08T00:00:00")
+    expect(urls[1].searchParams.get("date_start")).toBe("2024-01-08T00:00:00")
+    expect(result.response.data).toHaveLength(1)
+    expect(result.datatable?.getRows()).toHaveLength(2)
+  })
+
+  it("skips windows without data", async () => {
+    mockFetch
+      .mockImplementationOnce(() =>
+        Promise.resolve({ ok: false, status: 404, statusText: "Not Found" }),
+      )
+      .mockImplementationOnce(() =>
+        mockFetchResponse(
+          mockSeriesResponse("price", [["2024-01-08T00:00:00+10:00", 2]]),
+        ),
+      )
+
+    const result = await client.getMarket("NEM", ["price"], {
+      dateStart: "2024-01-01T00:00:00",
+      dateEnd: "2024-01-10T00:00:00",
+      chunk: true,
+    })
+
+    expect(result.datatable?.getRows()).toHaveLength(1)
+  })
+
+  it("stops fetching windows after one fails", async () => {
+    mockFetch
+      .mockImplementation(() =>
+        mockFetchResponse(
+          mockSeriesResponse("power", [["2024-01-01T00:00:00+10:00", 1]]),
+        ),
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({ ok: false, status: 500, statusText: "Server Error" }),
+      )
+
+    await expect(
+      client.getNetworkData("NEM", ["power"], {
+        interval: "5m",
+        dateStart: "2024-01-01T00:00:00",
+        dateEnd: "2024-03-01T00:00:00",
+        chunk: { concurrency: 2 },
+      }),
+    ).rejects.toThrow()
+    // Only the windows already in flight were requested
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    mockFetch.mockReset()
+  })
+
+  it("throws NoDataFound when no window has data", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({ ok: false, status: 404, statusText: "Not Found" }),
+    )
+
+    await expect(
+      client.getFacilityData("NEM", "BANGOWF", ["energy"], {
+        interval: "1h",
+        dateStart: "2024-01-01T00:00:00",
+        dateEnd: "2024-03-01T00:00:00",
+        chunk: true,
+      }),
+    ).rejects.toBeInstanceOf(NoDataFound)
+    mockFetch.mockReset()
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest"
+
+import { DataTable, type IDataTableRow } from "../src/datatable"
+import {
+  difference,
+  emissionIntensity,
+  percentage,
+  ratio,
+  total,
+} from "../src/expressions"
+
+const t0 = new Date("2025-01-15T00:00:00+10:00")
+
+const ROWS: IDataTableRow[] = [
+  {
+    interval: t0,
+    network_region: "NSW1",
+    emissions: 80,
+    energy: 100,
+    renewable: 30,
+  },
+  {
+    interval: t0,
+    network_region: "QLD1",
+    emissions: 90,
+    energy: 0,
+    renewable: 0,
+  },
+  {
+    interval: t0,
+    network_region: "SA1",
+    emissions: null,
+    energy: 50,
+    renewable: 40,
+  },
+]
+
+function createTable(): DataTable {
+  return new DataTable(
+    ROWS,
+    ["network_region"],
+    new Map([
+      ["emissions", "tCO2e"],
+      ["energy", "MWh"],
+      ["renewable", "MWh"],
+    ]),
+    "NEM",
+  )
+}
+
+describe("DataTable.withColumn", () => {
+  test("adds a computed metric with its unit", () => {
+    const table = createTable()
+    const derived = table.withColumn(
+      "energy_gwh",
+      (row) => (row.energy as number) / 1000,
+      { unit: "GWh" },
+    )
+
+    expect(derived.getRows()[0].energy_gwh).toBe(0.1)
+    expect(derived.getMetrics().get("energy_gwh")).toBe("GWh")
+    // The source table is unchanged
+    expect(table.getRows()[0]).not.toHaveProperty("energy_gwh")
+    expect(table.getMetrics().has("energy_gwh")).toBe(false)
+  })
+
+  test("derives units from expression helpers", () => {
+    const derived = createTable().withColumn(
+      "intensity",
+      ratio("emissions", "energy"),
+    )
+
+    expect(derived.getMetrics().get("intensity")).toBe("tCO2e/MWh")
+    expect(derived.getRows().map((row) => row.intensity)).toEqual([
+      0.8,
+      null,
+      null,
+    ])
+  })
+
+  test("adds grouping columns that can be filtered and grouped", () => {
+    const derived = createTable().withColumn(
+      "state",
+      (row) => (row.network_region as string).replace(/1$/, ""),
+      { grouping: true },
+    )
+
+    expect(derived.getGroupings()).toEqual(["network_region", "state"])
+    expect(derived.getMetrics().has("state")).toBe(false)
+    expect(derived.filter((row) => row.state === "SA").getRows()).toHaveLength(
+      1,
+    )
+    expect(derived.groupBy(["state"], "sum").getRows()).toHaveLength(3)
+  })
+
+  test("keeps the unit when replacing a metric", () => {
+    const derived = createTable().withColumn(
+      "energy",
+      (row) => (row.energy as number) * 2,
+    )
+
+    expect(derived.getRows()[0].energy).toBe(200)
+    expect(derived.getMetrics().get("energy")).toBe("MWh")
+  })
+
+  test("assigns several columns in order", () => {
+    const derived = createTable().assign({
+      emission_intensity: emissionIntensity(),
+      renewable_share: percentage("renewable", "energy"),
+      fossil: difference("energy", "renewable"),
+      fossil_share: percentage("fossil", "energy"),
+      all: total("energy", "renewable"),
+    })
+
+    expect(derived.getRows()[0]).toMatchObject({
+      emission_intensity: 0.8,
+      renewable_share: 30,
+      fossil: 70,
+      fossil_share: 70,
+      all: 130,
+    })
+    expect(derived.getMetrics()).toEqual(
+      new Map([
+        ["emissions", "tCO2e"],
+        ["energy", "MWh"],
+        ["renewable", "MWh"],
+        ["emission_intensity", "tCO2e/MWh"],
+        ["renewable_share", "%"],
+        ["fossil", "MWh"],
+        ["fossil_share", "%"],
+        ["all", "MWh"],
+      ]),
+    )
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, expect, test } from "vitest"
+
+import { DataTable, type IDataTableRow } from "../src/datatable"
+
+const hour = (h: number) =>
+  new Date(`2025-01-15T${String(h).padStart(2, "0")}:00:00+10:00`)
+
+const ROWS: IDataTableRow[] = [
+  {
+    interval: hour(1),
+    network_region: "NSW1",
+    price: 80,
+    demand: 1000,
+    energy: 10,
+  },
+  {
+    interval: hour(0),
+    network_region: "NSW1",
+    price: 120,
+    demand: 3000,
+    energy: 20,
+  },
+  {
+    interval: hour(2),
+    network_region: "NSW1",
+    price: null,
+    demand: 2000,
+    energy: 30,
+  },
+  {
+    interval: hour(0),
+    network_region: "QLD1",
+    price: 50,
+    demand: 500,
+    energy: 5,
+  },
+  {
+    interval: hour(1),
+    network_region: "QLD1",
+    price: 70,
+    demand: 1500,
+    energy: 15,
+  },
+]
+
+function createTable(): DataTable {
+  return new DataTable(
+    ROWS,
+    ["network_region"],
+    new Map([
+      ["price", "$/MWh"],
+      ["demand", "MW"],
+      ["energy", "MWh"],
+    ]),
+    "NEM",
+  )
+}
+
+function byRegion(table: DataTable): Record<string, IDataTableRow> {
+  return Object.fromEntries(
+    table.getRows().map((row) => [row.network_region, row]),
+  )
+}
+
+describe("DataTable.groupBy aggregations", () => {
+  test("aggregates each column its own way", () => {
+    const grouped = createTable().groupBy(["network_region"], {
+      price: "max",
+      energy: "sum",
+      demand: "count",
+    })
+    const nsw = byRegion(grouped).NSW1
+
+    expect(nsw).toMatchObject({ price: 120, energy: 60, demand: 3 })
+    expect(grouped.getMetrics()).toEqual(
+      new Map([
+        ["price", "$/MWh"],
+        ["energy", "MWh"],
+        ["demand", "count"],
+      ]),
+    )
+  })
+
+  test("supports order statistics", () => {
+    const nsw = (aggregation: Parameters<DataTable["groupBy"]>[1]) =>
+      byRegion(createTable().groupBy(["network_region"], aggregation)).NSW1
+
+    expect(nsw({ energy: "median" }).energy).toBe(20)
+    expect(nsw({ energy: "min" }).energy).toBe(10)
+    expect(nsw({ energy: { percentile: 90 } }).energy).toBe(28)
+    expect(nsw({ energy: "std" }).energy).toBeCloseTo(8.165, 3)
+    expect(nsw({ energy: "first" }).energy).toBe(10)
+    expect(nsw({ energy: "last" }).energy).toBe(30)
+    expect(nsw({ price: "mean" }).price).toBe(100)
+  })
+
+  test("weights a mean by another column", () => {
+    const grouped = createTable().groupBy(["network_region"], {
+      price: { weightedMean: "demand" },
+    })
+
+    expect(byRegion(grouped).NSW1.price).toBe(110)
+    expect(byRegion(grouped).QLD1.price).toBe(65)
+  })
+
+  test("applies a single aggregation to every metric", () => {
+    const nsw = byRegion(createTable().groupBy(["network_region"], "max")).NSW1
+
+    expect(nsw).toMatchObject({ price: 120, demand: 3000, energy: 30 })
+  })
+
+  test("controls the interval of grouped rows", () => {
+    const table = createTable()
+    const nsw = (mode: "first" | "start") =>
+      byRegion(table.groupBy(["network_region"], "sum", { interval: mode }))
+        .NSW1
+
+    expect(nsw("first").interval).toEqual(hour(1))
+    expect(nsw("start").interval).toEqual(hour(0))
+  })
+
+  test("returns records without an interval when dropping it", () => {
+    const records = createTable()
+      .groupBy(["network_region"], { energy: "sum" }, { interval: "drop" })
+      .getRecords()
+
+    expect(records).toEqual([
+      { network_region: "NSW1", energy: 60 },
+      { network_region: "QLD1", energy: 20 },
+    ])
+    expect(() =>
+      createTable().groupBy(["interval"], "sum", { interval: "drop" }),
+    ).toThrow("Cannot drop interval")
+  })
+
+  test("returns aggregated rows from the cache", () => {
+    const table = createTable()
+    const first = table.groupBy(["network_region"], { energy: "sum" })
+    const second = table.groupBy(["network_region"], { energy: "sum" })
+
+    expect(second.getRows()).toEqual(first.getRows())
+    expect(second.getRows()).toHaveLength(2)
+  })
+})
+
+describe("DataTable.groupBy on large groups", () => {
+  test("aggregates groups larger than the call stack", () => {
+    const start = Date.UTC(2024, 0, 1)
+    const rows: IDataTableRow[] = Array.from({ length: 200000 }, (_, i) => ({
+      interval: new Date(start + i * 300000),
+      network_region: "NSW1",
+      price: i % 1000,
+    }))
+    const table = new DataTable(
+      rows,
+      ["network_region"],
+      new Map([["price", "$/MWh"]]),
+    )
+
+    expect(
+      table.groupBy(["network_region"], { price: "max" }).getRows()[0].price,
+    ).toBe(999)
+    expect(
+      table.groupBy(["network_region"], { price: "min" }).getRows()[0].price,
+    ).toBe(0)
+    expect(
+      table
+        .groupBy(["network_region"], "mean", { interval: "start" })
+        .getRows()[0].interval,
+    ).toEqual(new Date(start))
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, expect, test } from "vitest"
+
+import {
+  createDataTable,
+  DataTable,
+  type IDataTableRow,
+} from "../src/datatable"
+import { generateNetworkTimeSeries } from "../src/synthetic"
+
+const t0 = new Date("2025-01-15T10:00:00+10:00")
+const t1 = new Date("2025-01-15T10:05:00+10:00")
+
+function table(
+  rows: IDataTableRow[],
+  metrics: [string, string][],
+  network: "NEM" | "WEM" = "NEM",
+): DataTable {
+  return new DataTable(rows, ["network_region"], new Map(metrics), network)
+}
+
+const generation = () =>
+  table(
+    [
+      { interval: t0, network_region: "NSW1", energy: 10 },
+      { interval: t0, network_region: "QLD1", energy: 20 },
+      { interval: t1, network_region: "NSW1", energy: 11 },
+    ],
+    [["energy", "MWh"]],
+  )
+
+const prices = () =>
+  table(
+    [
+      { interval: t0, network_region: "NSW1", price: 90 },
+      { interval: t1, network_region: "NSW1", price: 95 },
+      { interval: t1, network_region: "SA1", price: 300 },
+    ],
+    [["price", "$/MWh"]],
+  )
+
+describe("DataTable.join", () => {
+  test("inner joins on interval and shared groupings", () => {
+    const joined = generation().join(prices())
+
+    expect(joined.getRows()).toEqual([
+      { interval: t0, network_region: "NSW1", energy: 10, price: 90 },
+      { interval: t1, network_region: "NSW1", energy: 11, price: 95 },
+    ])
+    expect(joined.getMetrics()).toEqual(
+      new Map([
+        ["energy", "MWh"],
+        ["price", "$/MWh"],
+      ]),
+    )
+  })
+
+  test("keeps unmatched rows for left and outer joins", () => {
+    const on = ["interval", "network_region"]
+
+    expect(
+      generation().join(prices(), { on, how: "left" }).getRows(),
+    ).toContainEqual({
+      interval: t0,
+      network_region: "QLD1",
+      energy: 20,
+      price: null,
+    })
+
+    const outer = generation().join(prices(), { on, how: "outer" }).getRows()
+    expect(outer).toHaveLength(4)
+    expect(outer[outer.length - 1]).toEqual({
+      interval: t1,
+      network_region: "SA1",
+      energy: null,
+      price: 300,
+    })
+  })
+
+  test("keeps the left interval when not joining on it", () => {
+    const capacity = new DataTable(
+      [
+        {
+          interval: new Date("2025-06-01T00:00:00+10:00"),
+          network_region: "NSW1",
+          capacity: 500,
+        },
+      ],
+      ["network_region"],
+      new Map([["capacity", "MW"]]),
+      "NEM",
+    )
+
+    const joined = generation().join(capacity, { on: ["network_region"] })
+
+    expect(joined.getRows().map((row) => row.interval)).toEqual([t0, t1])
+    expect(joined.getRows()[0].capacity).toBe(500)
+  })
+
+  test("rejects columns in both tables", () => {
+    expect(() => generation().join(generation(), { on: ["interval"] })).toThrow(
+      "network_region, energy in both tables",
+    )
+  })
+
+  test("combines market and generation data", () => {
+    const options = {
+      interval: "1h" as const,
+      dateStart: "2024-01-01T00:00:00",
+      dateEnd: "2024-01-02T00:00:00",
+      primaryGrouping: "network_region" as const,
+    }
+    const market = createDataTable(
+      generateNetworkTimeSeries("NEM", ["price", "demand"], options),
+    )
+    const network = createDataTable(
+      generateNetworkTimeSeries("NEM", ["energy", "emissions"], options),
+    )
+
+    const joined = network.join(market, {
+      on: ["interval", "network_region"],
+    })
+
+    expect(joined.getRows()).toHaveLength(network.getRows().length)
+    expect(Array.from(joined.getMetrics().keys())).toEqual([
+      "energy",
+      "emissions",
+      "price",
+      "demand",
+    ])
+    expect(joined.getRows()[0].price).toEqual(expect.any(Number))
+  })
+})
+
+describe("DataTable.concat", () => {
+  test("stacks rows and fills missing columns", () => {
+    const wem = table(
+      [{ interval: t0, network_region: "WEM", energy: 5, price: 60 }],
+      [
+        ["energy", "MWh"],
+        ["price", "$/MWh"],
+      ],
+      "WEM",
+    )
+
+    const combined = DataTable.concat([generation(), wem])
+
+    expect(combined.getRows()).toHaveLength(4)
+    expect(combined.getRows()[0].price).toBeNull()
+    expect(combined.getMetrics().get("price")).toBe("$/MWh")
+    expect(combined.getNetworkCode()).toBeUndefined()
+    expect(
+      DataTable.concat([generation(), generation()]).getNetworkCode(),
+    ).toBe("NEM")
+  })
+
+  test("rejects conflicting units", () => {
+    const power = table(
+      [{ interval: t0, network_region: "NSW1", energy: 5 }],
+      [["energy", "GWh"]],
+    )
+
+    expect(() => DataTable.concat([generation(), power])).toThrow(
+      "Metric energy has conflicting units: MWh and GWh",
+    )
+  })
+})
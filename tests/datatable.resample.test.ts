@@ -0,0 +1,146 @@
+import { describe, expect, test } from "vitest"
+
+import { createDataTable } from "../src/datatable"
+import { generateNetworkTimeSeries } from "../src/synthetic"
+import type { INetworkTimeSeries, NetworkCode } from "../src/types"
+
+/**
+ * Build a single-region series with one value per 5 minute interval
+ */
+function series(
+  network: NetworkCode,
+  metric: string,
+  unit: string,
+  start: string,
+  values: number[],
+): INetworkTimeSeries {
+  const offset = network === "WEM" ? "+08:00" : "+10:00"
+  const startTime = new Date(`${start}${offset}`).getTime()
+  return {
+    network_code: network,
+    metric: metric as INetworkTimeSeries["metric"],
+    unit,
+    interval: "5m",
+    start,
+    end: start,
+    groupings: ["network_region"],
+    network_timezone_offset: offset,
+    results: [
+      {
+        name: `${metric}_REGION1`,
+        date_start: start,
+        date_end: start,
+        columns: { network_region: "REGION1" },
+        data: values.map((value, index) => [
+          new Date(startTime + index * 300000).toISOString(),
+          value,
+        ]),
+      },
+    ],
+  }
+}
+
+describe("DataTable.resample", () => {
+  test("averages power and sums energy", () => {
+    const table = createDataTable([
+      series("NEM", "power", "MW", "2025-01-15T10:00:00", [100, 200, 300, 400]),
+      series("NEM", "energy", "MWh", "2025-01-15T10:00:00", [10, 20, 30, 40]),
+    ])
+
+    const rows = table.resample("1h").getRows()
+
+    expect(rows).toHaveLength(1)
+    expect(rows[0]).toEqual({
+      interval: new Date("2025-01-15T10:00:00+10:00"),
+      network_region: "REGION1",
+      power: 250,
+      energy: 100,
+    })
+  })
+
+  test("weights price by demand", () => {
+    const table = createDataTable([
+      series("NEM", "price", "$/MWh", "2025-01-15T10:00:00", [100, 300]),
+      series("NEM", "demand", "MW", "2025-01-15T10:00:00", [1000, 3000]),
+    ])
+
+    const [row] = table.resample("30m").getRows()
+
+    expect(row.price).toBe(250)
+    expect(row.demand).toBe(2000)
+    expect(
+      table.resample("30m", { aggregations: { price: "max" } }).getRows()[0]
+        .price,
+    ).toBe(300)
+  })
+
+  test("buckets days in network time", () => {
+    // 23:00 to 01:00 network time, spanning midnight
+    const values = Array.from({ length: 24 }, () => 1)
+    const nem = createDataTable([
+      series("NEM", "energy", "MWh", "2025-01-15T23:00:00", values),
+    ]).resample("1d")
+    const wem = createDataTable([
+      series("WEM", "energy", "MWh", "2025-01-15T23:00:00", values),
+    ]).resample("1d")
+
+    expect(nem.getRows().map((row) => [row.interval, row.energy])).toEqual([
+      [new Date("2025-01-15T00:00:00+10:00"), 12],
+      [new Date("2025-01-16T00:00:00+10:00"), 12],
+    ])
+    expect(wem.getRows().map((row) => row.interval)).toEqual([
+      new Date("2025-01-15T00:00:00+08:00"),
+      new Date("2025-01-16T00:00:00+08:00"),
+    ])
+  })
+
+  test("keeps grouping columns", () => {
+    const table = createDataTable(
+      generateNetworkTimeSeries("NEM", ["power", "energy"], {
+        dateStart: "2024-01-01T00:00:00",
+        dateEnd: "2024-01-02T00:00:00",
+        primaryGrouping: "network_region",
+        secondaryGrouping: ["fueltech_group"],
+      }),
+    )
+
+    const hourly = table.resample("1h")
+    const groups = new Set(
+      table
+        .getRows()
+        .map((row) => `${row.network_region}_${row.fueltech_group}`),
+    )
+
+    expect(hourly.getGroupings()).toEqual(["network_region", "fueltech_group"])
+    expect(hourly.getMetrics()).toEqual(table.getMetrics())
+    expect(hourly.getNetworkCode()).toBe("NEM")
+    expect(hourly.getRows()).toHaveLength(groups.size * 24)
+
+    const coal = (t: typeof table) =>
+      t
+        .getRows()
+        .filter(
+          (row) =>
+            row.network_region === "NSW1" && row.fueltech_group === "coal",
+        )
+        .reduce((sum, row) => sum + (row.energy as number), 0)
+    expect(coal(hourly)).toBeCloseTo(coal(table), 6)
+  })
+
+  test("rolls up to months and financial years", () => {
+    const table = createDataTable([
+      series("NEM", "energy", "MWh", "2025-06-30T23:55:00", [5, 7]),
+    ])
+
+    expect(
+      table
+        .resample("fy")
+        .getRows()
+        .map((row) => [row.interval, row.energy]),
+    ).toEqual([
+      [new Date("2024-07-01T00:00:00+10:00"), 5],
+      [new Date("2025-07-01T00:00:00+10:00"), 7],
+    ])
+    expect(table.resample("1M").getRows()).toHaveLength(2)
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, expect, test } from "vitest"
+
+import {
+  createDataTable,
+  DataTable,
+  type IDataTableRow,
+} from "../src/datatable"
+import { generateNetworkTimeSeries } from "../src/synthetic"
+
+const t0 = new Date("2025-01-15T10:00:00+10:00")
+const t1 = new Date("2025-01-15T10:05:00+10:00")
+
+const ROWS: IDataTableRow[] = [
+  {
+    interval: t0,
+    network_region: "NSW1",
+    fueltech_group: "coal",
+    power: 100,
+    energy: 8,
+  },
+  {
+    interval: t0,
+    network_region: "NSW1",
+    fueltech_group: "solar",
+    power: 20,
+    energy: 2,
+  },
+  {
+    interval: t0,
+    network_region: "QLD1",
+    fueltech_group: "coal",
+    power: 50,
+    energy: 4,
+  },
+  {
+    interval: t1,
+    network_region: "NSW1",
+    fueltech_group: "coal",
+    power: 110,
+    energy: 9,
+  },
+  {
+    interval: t1,
+    network_region: "NSW1",
+    fueltech_group: "solar",
+    power: 30,
+    energy: 3,
+  },
+]
+
+function createTable(): DataTable {
+  return new DataTable(
+    ROWS,
+    ["network_region", "fueltech_group"],
+    new Map([
+      ["power", "MW"],
+      ["energy", "MWh"],
+    ]),
+    "NEM",
+  )
+}
+
+describe("DataTable.pivot", () => {
+  test("spreads a column into one column per value", () => {
+    const wide = createTable().pivot({
+      columns: "fueltech_group",
+      values: "power",
+    })
+
+    expect(wide.getRows()).toEqual([
+      { interval: t0, coal: 150, solar: 20 },
+      { interval: t1, coal: 110, solar: 30 },
+    ])
+    expect(wide.getGroupings()).toEqual([])
+    expect(wide.getMetrics()).toEqual(
+      new Map([
+        ["coal", "MW"],
+        ["solar", "MW"],
+      ]),
+    )
+    expect(wide.getNetworkCode()).toBe("NEM")
+  })
+
+  test("keeps extra index columns and fills gaps with null", () => {
+    const wide = createTable().pivot({
+      index: ["interval", "network_region"],
+      columns: "fueltech_group",
+      values: ["power", "energy"],
+    })
+
+    expect(wide.getGroupings()).toEqual(["network_region"])
+    expect(wide.getRows()).toContainEqual({
+      interval: t0,
+      network_region: "QLD1",
+      power_coal: 50,
+      power_solar: null,
+      energy_coal: 4,
+      energy_solar: null,
+    })
+    expect(wide.getMetrics().get("energy_solar")).toBe("MWh")
+  })
+
+  test("requires interval in the index", () => {
+    expect(() =>
+      createTable().pivot({
+        index: "network_region",
+        columns: "fueltech_group",
+        values: "power",
+      }),
+    ).toThrow("The pivot index must include interval")
+  })
+
+  test("combines duplicates with the aggregation", () => {
+    const wide = createTable().pivot({
+      columns: "fueltech_group",
+      values: "power",
+      aggregation: "max",
+    })
+
+    expect(wide.getRows()[0].coal).toBe(100)
+  })
+
+  test("pivots API shaped tables for stacked charts", () => {
+    const table = createDataTable(
+      generateNetworkTimeSeries("NEM", ["power"], {
+        interval: "1h",
+        dateStart: "2024-01-01T00:00:00",
+        dateEnd: "2024-01-02T00:00:00",
+        secondaryGrouping: ["fueltech_group"],
+      }),
+    )
+
+    const wide = table.pivot({ columns: "fueltech_group", values: "power" })
+
+    expect(wide.getRows()).toHaveLength(24)
+    expect(Array.from(wide.getMetrics().keys())).toContain("solar")
+    expect(wide.getRows()[12].solar as number).toBeGreaterThan(0)
+  })
+})
+
+describe("DataTable.melt", () => {
+  test("reverses a pivot", () => {
+    const long = createTable()
+      .pivot({ columns: "fueltech_group", values: "power" })
+      .melt({ variable: "fueltech_group", value: "power" })
+
+    expect(long.getRows()).toEqual([
+      { interval: t0, fueltech_group: "coal", power: 150 },
+      { interval: t0, fueltech_group: "solar", power: 20 },
+      { interval: t1, fueltech_group: "coal", power: 110 },
+      { interval: t1, fueltech_group: "solar", power: 30 },
+    ])
+    expect(long.getGroupings()).toEqual(["fueltech_group"])
+    expect(long.getMetrics()).toEqual(new Map([["power", "MW"]]))
+  })
+
+  test("melts every metric by default", () => {
+    const long = createTable().melt()
+
+    expect(long.getRows()).toHaveLength(ROWS.length * 2)
+    expect(long.getRows()[1]).toEqual({
+      interval: t0,
+      network_region: "NSW1",
+      fueltech_group: "coal",
+      variable: "energy",
+      value: 8,
+    })
+    // Power and energy have different units
+    expect(long.getMetrics()).toEqual(new Map([["value", ""]]))
+  })
+})
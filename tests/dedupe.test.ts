@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { AbortError, OpenElectricityClient } from "../src/client"
+
+const mockResponse = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: [
+    {
+      network_code: "NEM",
+      metric: "price",
+      unit: "$/MWh",
+      interval: "1h",
+      start: "2024-01-01T00:00:00+10:00",
+      end: "2024-01-01T01:00:00+10:00",
+      groupings: [],
+      network_timezone_offset: "+10:00",
+      results: [
+        {
+          name: "price",
+          date_start: "2024-01-01T00:00:00+10:00",
+          date_end: "2024-01-01T01:00:00+10:00",
+          columns: {},
+          data: [["2024-01-01T00:00:00+10:00", 100]],
+        },
+      ],
+    },
+  ],
+}
+
+/**
+ * A fetch that resolves once release() is called
+ */
+function deferredFetch() {
+  let release = () => {}
+  const gate = new Promise<void>((resolve) => {
+    release = resolve
+  })
+  const fetch = vi.fn(async (_url: string, init?: RequestInit) => {
+    await Promise.race([
+      gate,
+      new Promise((_resolve, reject) =>
+        init?.signal?.addEventListener("abort", () =>
+          reject(new DOMException("The operation was aborted", "AbortError")),
+        ),
+      ),
+    ])
+    return new Response(JSON.stringify(mockResponse))
+  })
+  return { fetch, release }
+}
+
+describe("request deduplication", () => {
+  it("shares one request between concurrent identical calls", async () => {
+    const { fetch, release } = deferredFetch()
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    const first = client.getMarket("NEM", ["price"], { interval: "1h" })
+    const second = client.getMarket("NEM", ["price"], { interval: "1h" })
+    release()
+    const [a, b] = await Promise.all([first, second])
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(a.datatable).not.toBe(b.datatable)
+    expect(a.response).not.toBe(b.response)
+    expect(a.response).toEqual(b.response)
+  })
+
+  it("does not share requests with different parameters", async () => {
+    const { fetch, release } = deferredFetch()
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    const first = client.getMarket("NEM", ["price"], { interval: "1h" })
+    const second = client.getMarket("NEM", ["price"], { interval: "1d" })
+    release()
+    await Promise.all([first, second])
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("makes a new request once the previous one has settled", async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify(mockResponse)))
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    await client.getMarket("NEM", ["price"], { interval: "1h" })
+    await client.getMarket("NEM", ["price"], { interval: "1h" })
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("keeps the shared request alive when one caller aborts", async () => {
+    const { fetch, release } = deferredFetch()
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+    const controller = new AbortController()
+
+    const first = client.getMarket(
+      "NEM",
+      ["price"],
+      { interval: "1h" },
+      { signal: controller.signal },
+    )
+    const second = client.getMarket("NEM", ["price"], { interval: "1h" })
+    controller.abort()
+    release()
+
+    await expect(first).rejects.toBeInstanceOf(AbortError)
+    const result = await second
+    expect(result.datatable?.getRows()).toHaveLength(1)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("can be disabled", async () => {
+    const { fetch, release } = deferredFetch()
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      deduplicate: false,
+    })
+
+    const first = client.getMarket("NEM", ["price"], { interval: "1h" })
+    const second = client.getMarket("NEM", ["price"], { interval: "1h" })
+    release()
+    await Promise.all([first, second])
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  AuthenticationError,
+  NoDataFound,
+  OpenElectricityClient,
+  OpenElectricityError,
+  PermissionDeniedError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from "../src/client"
+
+// Mock fetch
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch as unknown as typeof fetch
+
+function mockErrorResponse(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return Promise.resolve({
+    ok: false,
+    status,
+    statusText: "Error",
+    headers: new Headers(headers),
+    json: () =>
+      body === undefined
+        ? Promise.reject(new SyntaxError("Unexpected token"))
+        : Promise.resolve(body),
+  } as Response)
+}
+
+async function catchError(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise
+  } catch (error) {
+    return error
+  }
+  throw new Error("Expected promise to reject")
+}
+
+describe("API errors", () => {
+  let client: OpenElectricityClient
+
+  beforeEach(() => {
+    client = new OpenElectricityClient({ apiKey: "test-key", retry: false })
+    vi.clearAllMocks()
+  })
+
+  it("throws AuthenticationError for 401", async () => {
+    mockFetch.mockImplementationOnce(() =>
+      mockErrorResponse(401, { detail: "Invalid API key" }),
+    )
+
+    const error = await catchError(client.getCurrentUser())
+    expect(error).toBeInstanceOf(AuthenticationError)
+    expect(error).toBeInstanceOf(OpenElectricityError)
+    expect((error as AuthenticationError).statusCode).toBe(401)
+    expect((error as AuthenticationError).message).toBe("Invalid API key")
+  })
+
+  it("throws PermissionDeniedError for 403", async () => {
+    mockFetch.mockImplementationOnce(() => mockErrorResponse(403, {}))
+
+    const error = await catchError(client.getCurrentUser())
+    expect(error).toBeInstanceOf(PermissionDeniedError)
+    expect(error).toBeInstanceOf(OpenElectricityError)
+    expect((error as PermissionDeniedError).statusCode).toBe(403)
+  })
+
+  it("throws RateLimitError with retry-after and remaining quota", async () => {
+    mockFetch.mockImplementationOnce(() =>
+      mockErrorResponse(
+        429,
+        { detail: "Rate limit exceeded" },
+        { "Retry-After": "30", "X-RateLimit-Remaining": "0" },
+      ),
+    )
+
+    const error = await catchError(client.getCurrentUser())
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect((error as RateLimitError).retryAfterMs).toBe(30000)
+    expect((error as RateLimitError).remaining).toBe(0)
+  })
+
+  it("throws ValidationError exposing validation details", async () => {
+    mockFetch.mockImplementationOnce(() =>
+      mockErrorResponse(400, {
+        detail: {
+          error: "Invalid metrics requested",
+          invalid_metrics: ["power"],
+          supported_metrics: ["price", "demand"],
+          hint: "Use getNetworkData for power",
+        },
+      }),
+    )
+
+    const error = await catchError(
+      client.getMarket("NEM", ["price"], { interval: "1h" }),
+    )
+    expect(error).toBeInstanceOf(ValidationError)
+    const validationError = error as ValidationError
+    expect(validationError.message).toBe(
+      "Invalid metrics requested (Use getNetworkData for power)",
+    )
+    expect(validationError.invalid_metrics).toEqual(["power"])
+    expect(validationError.supported_metrics).toEqual(["price", "demand"])
+    expect(validationError.hint).toBe("Use getNetworkData for power")
+  })
+
+  it("throws ValidationError for request validation failures", async () => {
+    mockFetch.mockImplementationOnce(() =>
+      mockErrorResponse(422, {
+        detail: [
+          {
+            loc: ["query", "interval"],
+            msg: "Input should be '5m' or '1h'",
+            type: "enum",
+          },
+        ],
+      }),
+    )
+
+    const error = await catchError(client.getCurrentUser())
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).message).toBe(
+      "Input should be '5m' or '1h'",
+    )
+  })
+
+  it("throws ServerError for 5xx responses", async () => {
+    mockFetch.mockImplementationOnce(() => mockErrorResponse(500, undefined))
+
+    const error = await catchError(client.getCurrentUser())
+    expect(error).toBeInstanceOf(ServerError)
+    expect((error as ServerError).message).toContain("Internal server error")
+  })
+
+  it("keeps NoDataFound for 404", async () => {
+    mockFetch.mockImplementationOnce(() => mockErrorResponse(404, {}))
+
+    const error = await catchError(client.getCurrentUser())
+    expect(error).toBeInstanceOf(NoDataFound)
+  })
+})
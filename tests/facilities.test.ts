@@ -428,3 +428,110 @@ describe("Facilities", () => {
     expect(firstRow).toHaveProperty("unit_dispatch_type")
   })
 })
+
+describe("Single facility", () => {
+  const mockFacilities = {
+    version: "4.0.1",
+    created_at: "2024-01-01T00:00:00",
+    success: true,
+    error: null,
+    data: [
+      {
+        code: "BAYSW",
+        name: "Bayswater",
+        network_id: "NEM",
+        network_region: "NSW1",
+        description: null,
+        units: [
+          {
+            code: "BW01",
+            fueltech_id: "coal_black",
+            status_id: "operating",
+            capacity_registered: 660,
+            emissions_factor_co2: 0.9,
+            data_first_seen: "2020-01-01",
+            data_last_seen: "2024-01-01",
+            dispatch_type: "GENERATOR",
+          },
+        ],
+      },
+    ],
+  }
+
+  const mockData = {
+    version: "4.0.1",
+    created_at: "2024-01-01T00:00:00",
+    success: true,
+    error: null,
+    data: [
+      {
+        network_code: "NEM",
+        metric: "energy",
+        unit: "MWh",
+        interval: "1d",
+        start: "2024-01-01T00:00:00+10:00",
+        end: "2024-01-02T00:00:00+10:00",
+        groupings: [],
+        network_timezone_offset: "+10:00",
+        results: [
+          {
+            name: "energy_BW01",
+            date_start: "2024-01-01T00:00:00+10:00",
+            date_end: "2024-01-02T00:00:00+10:00",
+            columns: { unit_code: "BW01" },
+            data: [["2024-01-01T00:00:00+10:00", 12000]],
+          },
+        ],
+      },
+    ],
+  }
+
+  let client: OpenElectricityClient
+
+  beforeEach(() => {
+    client = new OpenElectricityClient({ apiKey: "test-key" })
+    vi.clearAllMocks()
+    mockFetch.mockImplementation((url: string) =>
+      mockFetchResponse(url.includes("/facilities/") ? mockFacilities : mockData),
+    )
+  })
+
+  it("requests the single facility endpoint", async () => {
+    await client.getFacility("NEM", "BAYSW", ["energy"], { interval: "1d" })
+
+    const urls = mockFetch.mock.calls.map(([url]) => url as string)
+    expect(urls).toContainEqual(expect.stringContaining("/data/facility/NEM/BAYSW?metrics=energy&interval=1d"))
+    expect(urls).toContainEqual(expect.stringContaining("/facilities/?network_id=NEM"))
+  })
+
+  it("returns the facility metadata and joins unit attributes", async () => {
+    const result = await client.getFacility("NEM", "BAYSW", ["energy"], { interval: "1d" })
+
+    expect(result.facility.name).toBe("Bayswater")
+    expect(result.facility.units).toHaveLength(1)
+
+    const rows = result.datatable.getRows()
+    expect(rows).toHaveLength(1)
+    expect(rows[0]).toMatchObject({
+      unit_code: "BW01",
+      energy: 12000,
+      unit_fueltech: "coal_black",
+      unit_status: "operating",
+      unit_capacity: 660,
+      unit_dispatch_type: "GENERATOR",
+    })
+  })
+
+  it("fetches the facility list once per network", async () => {
+    await client.getFacility("NEM", "BAYSW", ["energy"], { interval: "1d" })
+    await client.getFacility("NEM", "BAYSW", ["power"], { interval: "1d" })
+
+    const urls = mockFetch.mock.calls.map(([url]) => url as string)
+    expect(urls.filter((url) => url.includes("/facilities/"))).toHaveLength(1)
+    expect(urls.filter((url) => url.includes("/data/facility/"))).toHaveLength(2)
+  })
+
+  it("throws NoDataFound for an unknown facility", async () => {
+    await expect(client.getFacility("NEM", "UNKNOWN", ["energy"])).rejects.toBeInstanceOf(NoDataFound)
+  })
+})
@@ -0,0 +1,124 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  FixtureNotFoundError,
+  NoDataFound,
+  OpenElectricityClient,
+} from "../src/client"
+import { getFixtureKey, withFixtures } from "../src/node"
+
+const mockUser = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: { id: "user_1", full_name: "Test User", plan: "PRO" },
+}
+
+const mockFacilities = { ...mockUser, data: [] }
+
+describe("fixtures", () => {
+  let directory: string
+  let path: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "openelectricity-fixtures-"))
+    path = join(directory, "fixtures.json")
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("matches requests on method, path and sorted query", () => {
+    expect(
+      getFixtureKey("get", "https://api.openelectricity.org.au/v4/x?b=2&a=1"),
+    ).toBe(getFixtureKey("GET", "/v4/x?a=1&b=2"))
+  })
+
+  it("records responses with the API key scrubbed", async () => {
+    const fetch = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({ ...mockUser, data: { id: "oe_secret_key" } }),
+          { headers: { "X-RateLimit-Remaining": "42", "Set-Cookie": "a=b" } },
+        ),
+    )
+    const client = new OpenElectricityClient({
+      apiKey: "oe_secret_key",
+      fetch: withFixtures({ mode: "record", path }, fetch),
+    })
+
+    await client.getCurrentUser()
+
+    const contents = await readFile(path, "utf8")
+    expect(contents).not.toContain("oe_secret_key")
+    const file = JSON.parse(contents)
+    expect(file.fixtures).toHaveLength(1)
+    expect(file.fixtures[0].request).toEqual({ method: "GET", url: "/v4/me" })
+    expect(file.fixtures[0].response.headers).toEqual({
+      "content-type": "text/plain;charset=UTF-8",
+      "x-ratelimit-remaining": "42",
+    })
+  })
+
+  it("replays recorded responses without the network", async () => {
+    const recorder = new OpenElectricityClient({
+      apiKey: "oe_secret_key",
+      fetch: withFixtures({ mode: "record", path }, async (url) =>
+        url.includes("/me")
+          ? new Response(JSON.stringify(mockUser))
+          : new Response(JSON.stringify(mockFacilities)),
+      ),
+    })
+    await recorder.getCurrentUser()
+    await recorder.getFacilities({ status_id: ["operating"] })
+
+    const fetch = vi.fn()
+    vi.stubGlobal("fetch", fetch)
+    const client = new OpenElectricityClient({
+      apiKey: "another-key",
+      fetch: withFixtures({ mode: "replay", path }),
+    })
+
+    expect(await client.getCurrentUser()).toEqual(mockUser)
+    const { response } = await client.getFacilities({
+      status_id: ["operating"],
+    })
+    expect(response).toEqual(mockFacilities)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it("replays error responses", async () => {
+    const recorder = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: withFixtures(
+        { mode: "record", path },
+        async () => new Response("{}", { status: 404 }),
+      ),
+    })
+    await expect(recorder.getCurrentUser()).rejects.toBeInstanceOf(NoDataFound)
+
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: withFixtures({ mode: "replay", path }),
+    })
+    await expect(client.getCurrentUser()).rejects.toBeInstanceOf(NoDataFound)
+  })
+
+  it("fails on unmatched requests", async () => {
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: withFixtures({ mode: "replay", path }),
+    })
+
+    const error = await client.getFacilities().catch((e) => e)
+    expect(error).toBeInstanceOf(FixtureNotFoundError)
+    expect((error as FixtureNotFoundError).key).toBe("GET /v4/facilities/")
+  })
+})
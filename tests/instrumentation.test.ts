@@ -0,0 +1,213 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { MemoryCache } from "../src/cache"
+import { OpenElectricityClient } from "../src/client"
+import { AuthenticationError } from "../src/errors"
+import {
+  createTraceparent,
+  getEndpoint,
+  type IInstrumentation,
+} from "../src/instrumentation"
+
+const mockUser = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: { id: "user_1", full_name: "Test User", plan: "PRO" },
+}
+
+const TRACEPARENT = /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/
+
+function createHooks() {
+  return {
+    onRequestStart: vi.fn(),
+    onRequestEnd: vi.fn(),
+    onRetry: vi.fn(),
+  } satisfies IInstrumentation
+}
+
+describe("instrumentation", () => {
+  it("reports request start and end", async () => {
+    const hooks = createHooks()
+    const body = JSON.stringify(mockUser)
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: async () => new Response(body),
+      instrumentation: hooks,
+    })
+
+    await client.getCurrentUser()
+
+    expect(hooks.onRequestStart).toHaveBeenCalledWith({
+      endpoint: "/me",
+      url: "https://api.openelectricity.org.au/v4/me",
+      method: "GET",
+    })
+    expect(hooks.onRequestEnd).toHaveBeenCalledWith({
+      endpoint: "/me",
+      url: "https://api.openelectricity.org.au/v4/me",
+      method: "GET",
+      status: 200,
+      durationMs: expect.any(Number),
+      bytes: new TextEncoder().encode(body).length,
+      retries: 0,
+      cacheHit: false,
+    })
+  })
+
+  it("counts retries and reports failures", async () => {
+    const hooks = createHooks()
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: vi
+        .fn()
+        .mockResolvedValueOnce(new Response("{}", { status: 503 }))
+        .mockResolvedValue(
+          new Response(JSON.stringify({ detail: "Invalid API key" }), {
+            status: 401,
+          }),
+        ),
+      instrumentation: hooks,
+      retry: { baseDelayMs: 1, jitter: false },
+    })
+
+    await expect(client.getCurrentUser()).rejects.toThrow(AuthenticationError)
+
+    expect(hooks.onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        endpoint: "/me",
+        attempt: 1,
+        status: 503,
+        delayMs: expect.any(Number),
+      }),
+    )
+    expect(hooks.onRequestEnd).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 401,
+        retries: 1,
+        error: expect.any(AuthenticationError),
+      }),
+    )
+  })
+
+  it("reports cache hits", async () => {
+    const hooks = createHooks()
+    const fetch = vi.fn(
+      async () => new Response(JSON.stringify({ ...mockUser, data: [] })),
+    )
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      cache: new MemoryCache(),
+      instrumentation: hooks,
+    })
+
+    await client.getFacilities()
+    await client.getFacilities()
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(hooks.onRequestEnd.mock.calls.map(([event]) => event)).toEqual([
+      expect.objectContaining({ endpoint: "/facilities/", cacheHit: false }),
+      expect.objectContaining({
+        endpoint: "/facilities/",
+        cacheHit: true,
+        bytes: expect.any(Number),
+      }),
+    ])
+    expect(hooks.onRequestEnd.mock.calls[1][0].status).toBeUndefined()
+  })
+
+  it("doesn't let a failing hook break requests", async () => {
+    const warn = vi.fn()
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: async () => new Response(JSON.stringify(mockUser)),
+      instrumentation: {
+        onRequestEnd: () => {
+          throw new Error("exporter down")
+        },
+      },
+      logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+    })
+
+    await expect(client.getCurrentUser()).resolves.toBeDefined()
+    expect(warn).toHaveBeenCalledWith(
+      "Instrumentation onRequestEnd hook failed",
+      { error: expect.any(Error) },
+    )
+  })
+
+  it("templates endpoint paths", () => {
+    expect(getEndpoint("/data/network/NEM?metrics=energy")).toBe(
+      "/data/network/{network_code}",
+    )
+    expect(getEndpoint("/data/facility/NEM/BAYSW?interval=1h")).toBe(
+      "/data/facility/{network_code}/{facility_code}",
+    )
+    expect(getEndpoint("/market/network/WEM")).toBe(
+      "/market/network/{network_code}",
+    )
+    expect(getEndpoint("/facilities/?status_id=operating")).toBe("/facilities/")
+  })
+})
+
+describe("trace context", () => {
+  it("sends a traceparent header when enabled", async () => {
+    const hooks = createHooks()
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify(mockUser)))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      instrumentation: hooks,
+      traceContext: true,
+    })
+
+    await client.getCurrentUser()
+
+    const headers = fetch.mock.calls[0][1].headers as Record<string, string>
+    expect(headers.traceparent).toMatch(TRACEPARENT)
+    expect(hooks.onRequestEnd).toHaveBeenCalledWith(
+      expect.objectContaining({ traceparent: headers.traceparent }),
+    )
+  })
+
+  it("continues the active trace", async () => {
+    const parent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify(mockUser)))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      traceContext: () => parent,
+    })
+
+    await client.getCurrentUser()
+
+    const headers = fetch.mock.calls[0][1].headers as Record<string, string>
+    expect(headers.traceparent).toMatch(
+      /^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/,
+    )
+    expect(headers.traceparent).not.toBe(parent)
+  })
+
+  it("doesn't send a traceparent by default", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify(mockUser)))
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    await client.getCurrentUser()
+
+    const headers = fetch.mock.calls[0][1].headers as Record<string, string>
+    expect(headers).not.toHaveProperty("traceparent")
+  })
+
+  it("starts a new trace for an invalid parent", () => {
+    expect(createTraceparent("not-a-traceparent")).toMatch(TRACEPARENT)
+    expect(createTraceparent("00-abc-def-01")).toMatch(TRACEPARENT)
+  })
+})
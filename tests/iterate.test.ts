@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { OpenElectricityClient, ValidationError } from "../src/client"
+import { DataTable } from "../src/datatable"
+import type { IAPIResponse, INetworkTimeSeries } from "../src/types"
+
+function seriesResponse(url: string): IAPIResponse<INetworkTimeSeries[]> {
+  const start = new URL(url).searchParams.get("date_start") as string
+  return {
+    version: "4.0.1",
+    created_at: "2024-01-01T00:00:00",
+    success: true,
+    error: null,
+    data: [
+      {
+        network_code: "NEM",
+        metric: "energy",
+        unit: "MWh",
+        interval: "1d",
+        start,
+        end: start,
+        groupings: [],
+        results: [
+          {
+            name: "energy",
+            date_start: start,
+            date_end: start,
+            columns: { unit_code: "BW01" },
+            data: [
+              [`${start}+10:00`, 1],
+              [`${start.replace("T00", "T12")}+10:00`, 2],
+            ],
+          },
+        ],
+        network_timezone_offset: "+10:00",
+      },
+    ],
+  }
+}
+
+function seriesFetch() {
+  return vi.fn(
+    async (url: string) => new Response(JSON.stringify(seriesResponse(url))),
+  )
+}
+
+const params = {
+  interval: "1d" as const,
+  dateStart: "2024-01-01T00:00:00",
+  dateEnd: "2024-01-04T00:00:00",
+  chunk: { maxDays: 1 },
+}
+
+describe("async iterators", () => {
+  it("yields a DataTable per chunk", async () => {
+    const fetch = seriesFetch()
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    const tables: DataTable[] = []
+    for await (const table of client.iterateNetworkData(
+      "NEM",
+      ["energy"],
+      params,
+    )) {
+      tables.push(table)
+    }
+
+    expect(tables).toHaveLength(3)
+    expect(tables[0]).toBeInstanceOf(DataTable)
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(fetch.mock.calls[1][0]).toContain(
+      "date_start=2024-01-02T00%3A00%3A00",
+    )
+  })
+
+  it("yields individual rows", async () => {
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: seriesFetch(),
+    })
+
+    const rows = []
+    for await (const row of client.iterateFacilityData(
+      "NEM",
+      "BAYSW",
+      ["energy"],
+      params,
+      { rows: true },
+    )) {
+      rows.push(row)
+    }
+
+    expect(rows).toHaveLength(6)
+    expect(rows[0]).toMatchObject({ unit_code: "BW01", energy: 1 })
+  })
+
+  it("yields rows on window boundaries once", async () => {
+    // Each window includes its end, which is the start of the next window
+    const fetch = vi.fn(async (url: string) => {
+      const query = new URL(url).searchParams
+      const response = seriesResponse(url)
+      response.data[0].results[0].data = [
+        [`${query.get("date_start")}+10:00`, 1],
+        [`${query.get("date_end")}+10:00`, 2],
+      ]
+      return new Response(JSON.stringify(response))
+    })
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    const rows = []
+    for await (const row of client.iterateNetworkData(
+      "NEM",
+      ["energy"],
+      params,
+      { rows: true },
+    )) {
+      rows.push(row)
+    }
+
+    expect(rows.map((row) => row.interval.toISOString())).toEqual([
+      "2023-12-31T14:00:00.000Z",
+      "2024-01-01T14:00:00.000Z",
+      "2024-01-02T14:00:00.000Z",
+      "2024-01-03T14:00:00.000Z",
+    ])
+  })
+
+  it("only fetches the next chunk when the consumer asks for it", async () => {
+    const fetch = seriesFetch()
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    const iterator = client.iterateMarket("NEM", ["price"], params)
+    expect(fetch).not.toHaveBeenCalled()
+
+    await iterator.next()
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    await iterator.return(undefined)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("validates parameters before iterating", () => {
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: seriesFetch(),
+    })
+
+    expect(() => client.iterateMarket("NEM", [], params)).toThrow(
+      ValidationError,
+    )
+  })
+})
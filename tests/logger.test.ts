@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { MemoryCache } from "../src/cache"
+import { OpenElectricityClient } from "../src/client"
+import { createConsoleLogger, type ILogger, redact } from "../src/utils"
+
+const mockUser = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: { id: "user_1", full_name: "Test User", plan: "PRO" },
+}
+
+function createLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } satisfies ILogger
+}
+
+function allCalls(logger: ReturnType<typeof createLogger>): unknown[] {
+  return [logger.debug, logger.info, logger.warn, logger.error].flatMap(
+    (method) => method.mock.calls,
+  )
+}
+
+describe("logger", () => {
+  it("logs structured request fields", async () => {
+    const logger = createLogger()
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("{}", { status: 503 }))
+      .mockResolvedValue(new Response(JSON.stringify(mockUser)))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      logger,
+      retry: { baseDelayMs: 1, jitter: false },
+    })
+
+    await client.getCurrentUser()
+
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining("retrying"),
+      expect.objectContaining({
+        url: expect.stringContaining("/me"),
+        attempt: 1,
+      }),
+    )
+    expect(logger.info).toHaveBeenCalledWith("Request completed", {
+      url: "https://api.openelectricity.org.au/v4/me",
+      method: "GET",
+      status: 200,
+      durationMs: expect.any(Number),
+      attempt: 2,
+    })
+  })
+
+  it("redacts the Authorization header and API key", async () => {
+    const logger = createLogger()
+    const client = new OpenElectricityClient({
+      apiKey: "oe_secret_key",
+      fetch: async () => new Response(JSON.stringify(mockUser)),
+      logger,
+    })
+
+    await client.getCurrentUser()
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Making request",
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: "[REDACTED]" }),
+      }),
+    )
+    expect(JSON.stringify(allCalls(logger))).not.toContain("oe_secret_key")
+  })
+
+  it("logs cache hits", async () => {
+    const logger = createLogger()
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: async () =>
+        new Response(JSON.stringify({ ...mockUser, data: [] })),
+      cache: new MemoryCache(),
+      logger,
+    })
+
+    await client.getFacilities()
+    await client.getFacilities()
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Making request",
+      expect.objectContaining({ cacheHit: false }),
+    )
+    expect(logger.debug).toHaveBeenCalledWith("Cache hit", {
+      url: "https://api.openelectricity.org.au/v4/facilities/",
+      cacheHit: true,
+    })
+  })
+
+  it("warns when timezone information is stripped", async () => {
+    const logger = createLogger()
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: async () => new Response("{}", { status: 404 }),
+      logger,
+    })
+
+    await client
+      .getMarket("NEM", ["price"], {
+        interval: "1h",
+        dateStart: "2024-01-01T00:00:00+10:00",
+        dateEnd: "2024-01-02T00:00:00",
+      })
+      .catch(() => {})
+
+    expect(logger.warn).toHaveBeenCalledTimes(1)
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("dateStart contains timezone information"),
+      {
+        original: "2024-01-01T00:00:00+10:00",
+        stripped: "2024-01-01T00:00:00",
+      },
+    )
+  })
+
+  it("filters console output by level", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const logger = createConsoleLogger("info")
+
+    logger.debug("hidden")
+    logger.info("shown", { status: 200 })
+    logger.warn("also shown")
+
+    expect(log).toHaveBeenCalledTimes(1)
+    expect(log).toHaveBeenCalledWith("[OpenElectricity] shown", {
+      status: 200,
+    })
+    expect(warn).toHaveBeenCalledWith("[OpenElectricity] also shown", "")
+    log.mockRestore()
+    warn.mockRestore()
+  })
+
+  it("only redacts a short API key as a whole token", async () => {
+    const logger = createLogger()
+    const client = new OpenElectricityClient({
+      apiKey: "k",
+      fetch: async () => new Response(JSON.stringify(mockUser)),
+      logger,
+    })
+
+    await client.getCurrentUser()
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Making request",
+      expect.anything(),
+    )
+    expect(
+      redact({ message: "key k and k-2", url: "/me?key=k" }, ["k"]),
+    ).toEqual({ message: "key [REDACTED] and k-2", url: "/me?key=[REDACTED]" })
+  })
+
+  it("redacts nested secrets without touching other values", () => {
+    const error = new Error("boom")
+    expect(
+      redact(
+        {
+          request: { headers: { authorization: "Bearer abc" }, apiKey: "k" },
+          message: "sent Bearer abc to the API",
+          error,
+          attempt: 1,
+        },
+        [],
+      ),
+    ).toEqual({
+      request: {
+        headers: { authorization: "[REDACTED]" },
+        apiKey: "[REDACTED]",
+      },
+      message: "sent Bearer [REDACTED] to the API",
+      error,
+      attempt: 1,
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  NoDataFound,
+  OpenElectricityClient,
+  PermissionDeniedError,
+  ValidationError,
+} from "../src/client"
+import type { IMetricsResponse } from "../src/types"
+
+const mockMetrics: IMetricsResponse = {
+  metrics: {
+    price: {
+      name: "price",
+      unit: "$/MWh",
+      description: "Price",
+      default_aggregation: "mean",
+      precision: 2,
+    },
+    power: {
+      name: "power",
+      unit: "MW",
+      description: "Power",
+      default_aggregation: "mean",
+      precision: 1,
+    },
+    curtailment_wind: {
+      name: "curtailment_wind",
+      unit: "MW",
+      description: "Curtailed wind generation",
+      default_aggregation: "mean",
+      precision: 2,
+    },
+  },
+  total: 3,
+  endpoints: {
+    market: ["price", "curtailment_wind"],
+    data: ["power"],
+  },
+}
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), { status })
+}
+
+describe("getAvailableMetrics", () => {
+  it("goes through the shared request pipeline", async () => {
+    const fetch = vi.fn(async () => jsonResponse(mockMetrics))
+    const onRequest = vi.fn()
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      middleware: [{ onRequest }],
+    })
+
+    const result = await client.getAvailableMetrics()
+
+    expect(result.total).toBe(3)
+    expect(onRequest).toHaveBeenCalledTimes(1)
+    expect(fetch.mock.calls[0]).toContain(
+      "https://api.openelectricity.org.au/v4/metrics",
+    )
+  })
+
+  it("throws the typed errors from request()", async () => {
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: async () => jsonResponse({}, 403),
+    })
+    await expect(client.getAvailableMetrics()).rejects.toBeInstanceOf(
+      PermissionDeniedError,
+    )
+
+    const notFoundClient = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: async () => jsonResponse({}, 404),
+    })
+    await expect(notFoundClient.getAvailableMetrics()).rejects.toBeInstanceOf(
+      NoDataFound,
+    )
+  })
+})
+
+describe("client.metrics", () => {
+  let fetch: ReturnType<typeof vi.fn>
+  let client: OpenElectricityClient
+
+  beforeEach(() => {
+    fetch = vi.fn(async () => jsonResponse(mockMetrics))
+    client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+  })
+
+  it("describes a metric", async () => {
+    const metadata = await client.metrics.describe("curtailment_wind")
+    expect(metadata.unit).toBe("MW")
+    expect(metadata.precision).toBe(2)
+    expect(metadata.default_aggregation).toBe("mean")
+  })
+
+  it("loads the metrics only once", async () => {
+    await client.metrics.describe("price")
+    await client.metrics.list("market")
+    await client.metrics.isSupported("power", "data")
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    client.metrics.reset()
+    await client.metrics.list()
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("throws ValidationError for unknown metrics", async () => {
+    const error = await client.metrics.describe("unknown").catch((e) => e)
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).invalid_metrics).toEqual(["unknown"])
+  })
+
+  it("validates metrics for an endpoint", async () => {
+    await expect(
+      client.metrics.validate(["price"], "market"),
+    ).resolves.toBeUndefined()
+
+    const error = await client.metrics
+      .validate(["price", "power"], "market")
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).invalid_metrics).toEqual(["power"])
+    expect((error as ValidationError).supported_metrics).toEqual([
+      "price",
+      "curtailment_wind",
+    ])
+  })
+
+  it("retries loading after a failure", async () => {
+    fetch.mockImplementationOnce(async () => jsonResponse({}, 403))
+    await expect(client.metrics.list()).rejects.toBeInstanceOf(
+      PermissionDeniedError,
+    )
+    await expect(client.metrics.list()).resolves.toHaveLength(3)
+  })
+})
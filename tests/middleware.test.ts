@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { OpenElectricityClient } from "../src/client"
+import type { IMiddleware } from "../src/middleware"
+
+const mockUser = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: { id: "user_1" },
+}
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+describe("injectable fetch", () => {
+  it("uses the fetch passed to the constructor", async () => {
+    const fetch = vi.fn(async () => jsonResponse(mockUser))
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    const result = await client.getCurrentUser()
+
+    expect(result.data.id).toBe("user_1")
+    expect(fetch).toHaveBeenCalledTimes(1)
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe("https://api.openelectricity.org.au/v4/me")
+    expect((init.headers as Record<string, string>).Authorization).toBe(
+      "Bearer test-key",
+    )
+  })
+})
+
+describe("middleware", () => {
+  it("lets onRequest modify headers and the URL", async () => {
+    const fetch = vi.fn(async () => jsonResponse(mockUser))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      middleware: [
+        {
+          onRequest: (context) => {
+            context.init.headers["X-Signature"] = "signed"
+            context.url = context.url.replace("api.", "proxy.")
+          },
+        },
+      ],
+    })
+
+    await client.getCurrentUser()
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe("https://proxy.openelectricity.org.au/v4/me")
+    expect((init.headers as Record<string, string>)["X-Signature"]).toBe(
+      "signed",
+    )
+  })
+
+  it("short-circuits with a canned response", async () => {
+    const fetch = vi.fn()
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+    }).use({ onRequest: () => jsonResponse(mockUser) })
+
+    const result = await client.getCurrentUser()
+
+    expect(result.data.id).toBe("user_1")
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it("runs onResponse for every attempt in order", async () => {
+    const calls: string[] = []
+    const timing: IMiddleware = {
+      onResponse: (response, context) => {
+        calls.push(`timing:${context.attempt}:${response.status}`)
+      },
+    }
+    const replace: IMiddleware = {
+      onResponse: (response) => {
+        calls.push(`replace:${response.status}`)
+        if (response.status === 418) return jsonResponse(mockUser)
+      },
+    }
+    const fetch = vi.fn(async () => jsonResponse({}, 418))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      middleware: [timing, replace],
+    })
+
+    const result = await client.getCurrentUser()
+
+    expect(result.data.id).toBe("user_1")
+    expect(calls).toEqual(["timing:1:418", "replace:418"])
+  })
+
+  it("recovers from fetch errors with onError", async () => {
+    const onError = vi.fn(() => jsonResponse(mockUser))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      retry: false,
+      fetch: async () => {
+        throw new TypeError("fetch failed")
+      },
+      middleware: [{ onError }],
+    })
+
+    const result = await client.getCurrentUser()
+
+    expect(result.data.id).toBe("user_1")
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  it("rethrows when onError does not recover", async () => {
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      retry: false,
+      fetch: async () => {
+        throw new TypeError("fetch failed")
+      },
+      middleware: [{ onError: () => undefined }],
+    })
+
+    await expect(client.getCurrentUser()).rejects.toThrow("fetch failed")
+  })
+})
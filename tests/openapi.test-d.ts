@@ -0,0 +1,31 @@
+import { describe, expectTypeOf, it } from "vitest"
+
+import type * as OpenAPI from "../src/openapi"
+import type {
+  DataInterval,
+  DataPrimaryGrouping,
+  DataSecondaryGrouping,
+  IAPIResponse,
+  Metric,
+  UnitFueltechType,
+  UnitStatusType,
+} from "../src/types"
+
+describe("OpenAPI types", () => {
+  it("hand-written unions match the spec", () => {
+    expectTypeOf<DataInterval>().toEqualTypeOf<OpenAPI.Interval>()
+    expectTypeOf<DataPrimaryGrouping>().toEqualTypeOf<OpenAPI.PrimaryGrouping>()
+    expectTypeOf<DataSecondaryGrouping>().toEqualTypeOf<OpenAPI.SecondaryGrouping>()
+    expectTypeOf<UnitStatusType>().toEqualTypeOf<OpenAPI.UnitStatusType>()
+    expectTypeOf<UnitFueltechType>().toEqualTypeOf<OpenAPI.UnitFueltechType>()
+
+    // The spec only lists the original metrics, the client supports more
+    expectTypeOf<OpenAPI.Metric>().toExtend<Metric>()
+  })
+
+  it("IAPIResponse matches APIV4ResponseSchema", () => {
+    expectTypeOf<Required<IAPIResponse<unknown[]>>>().toEqualTypeOf<
+      Required<OpenAPI.APIV4ResponseSchema>
+    >()
+  })
+})
@@ -0,0 +1,32 @@
+import { readFileSync } from "node:fs"
+
+import { describe, expect, it } from "vitest"
+
+import {
+  generateTypes,
+  type IOpenAPISpec,
+  OUTPUT_PATH,
+  SPEC_PATH,
+} from "../scripts/generate_types"
+import { FuelTech, UnitStatus } from "../src/types"
+
+const spec = JSON.parse(readFileSync(SPEC_PATH, "utf-8")) as IOpenAPISpec
+
+function specEnum(name: string): string[] {
+  return spec.components.schemas[name].enum ?? []
+}
+
+describe("OpenAPI types", () => {
+  it("generated types are up to date with the spec", () => {
+    expect(readFileSync(OUTPUT_PATH, "utf-8")).toBe(generateTypes(spec))
+  })
+
+  it("enum objects cover every spec value", () => {
+    expect(Object.values(FuelTech).sort()).toEqual(
+      specEnum("UnitFueltechType").sort(),
+    )
+    expect(Object.values(UnitStatus).sort()).toEqual(
+      specEnum("UnitStatusType").sort(),
+    )
+  })
+})
@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { OpenElectricityClient, RateLimitError } from "../src/client"
+import { RateLimiter, TokenBucket } from "../src/ratelimit"
+
+const mockUser = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: {
+    id: "user_1",
+    full_name: "Test User",
+    email: "test@example.com",
+    owner_id: "owner_1",
+    plan: "PRO",
+    meta: { remaining: 5000 },
+  },
+}
+
+function jsonResponse(
+  data: unknown,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(data), { status: 200, headers })
+}
+
+describe("TokenBucket", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("waits for tokens once the bucket is empty", async () => {
+    vi.useFakeTimers()
+    const bucket = new TokenBucket(2, 1000)
+    await bucket.acquire()
+    await bucket.acquire()
+
+    let acquired = false
+    const pending = bucket.acquire().then(() => {
+      acquired = true
+    })
+    await vi.advanceTimersByTimeAsync(400)
+    expect(acquired).toBe(false)
+    await vi.advanceTimersByTimeAsync(100)
+    await pending
+    expect(acquired).toBe(true)
+  })
+})
+
+describe("RateLimiter", () => {
+  it("warns once when the quota drops below the threshold", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const limiter = new RateLimiter({ lowQuotaThreshold: 10 })
+
+    limiter.update({ remaining: 50 })
+    limiter.update({ remaining: 10 })
+    limiter.update({ remaining: 9 })
+
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(limiter.getStatus()).toMatchObject({ remaining: 9, isLow: true })
+    warn.mockRestore()
+  })
+
+  it("throws when the quota is low and the policy is throw", async () => {
+    const limiter = new RateLimiter({
+      lowQuotaThreshold: 10,
+      onLowQuota: "throw",
+    })
+    limiter.update({ remaining: 3 })
+
+    const error = await limiter.acquire().catch((e) => e)
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect((error as RateLimitError).remaining).toBe(3)
+  })
+
+  it("stops applying the low quota policy once the quota resets", async () => {
+    const limiter = new RateLimiter({
+      lowQuotaThreshold: 10,
+      onLowQuota: "throw",
+    })
+    limiter.update({
+      remaining: 3,
+      reset: new Date(Date.now() - 1000).toISOString(),
+    })
+
+    await expect(limiter.acquire()).resolves.toBeUndefined()
+    expect(limiter.getStatus()).toMatchObject({ isLow: false })
+    expect(limiter.getStatus().remaining).toBeUndefined()
+  })
+
+  it("throttles when the quota is low and the policy is throttle", async () => {
+    const limiter = new RateLimiter({
+      lowQuotaThreshold: 10,
+      onLowQuota: "throttle",
+      throttleDelayMs: 30,
+    })
+    limiter.update({ remaining: 3 })
+
+    const start = Date.now()
+    await limiter.acquire()
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25)
+  })
+})
+
+describe("OpenElectricityClient quota tracking", () => {
+  it("tracks the remaining quota from response headers", async () => {
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: async () =>
+        jsonResponse(
+          { ...mockUser, data: [] },
+          { "X-RateLimit-Remaining": "1234" },
+        ),
+    })
+
+    await client.getFacilities()
+    const status = await client.getQuotaStatus()
+
+    expect(status.remaining).toBe(1234)
+    expect(status.requestCount).toBe(1)
+    expect(status.isLow).toBe(false)
+  })
+
+  it("refreshes the quota and plan from /me", async () => {
+    const fetch = vi.fn(async () => jsonResponse(mockUser))
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    const status = await client.getQuotaStatus({ refresh: true })
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(status.remaining).toBe(5000)
+    expect(status.plan).toBe("PRO")
+    expect(status.updatedAt).toBeInstanceOf(Date)
+  })
+
+  it("stops making requests when the quota is exhausted", async () => {
+    const fetch = vi.fn(async () =>
+      jsonResponse({ ...mockUser, data: [] }, { "X-RateLimit-Remaining": "0" }),
+    )
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      rateLimit: { onLowQuota: "throw", lowQuotaThreshold: 0 },
+    })
+
+    await client.getFacilities()
+    await expect(client.getFacilities()).rejects.toBeInstanceOf(RateLimitError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("still refreshes the quota from /me when it is exhausted", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse(
+          { ...mockUser, data: [] },
+          { "X-RateLimit-Remaining": "0" },
+        ),
+      )
+      .mockResolvedValueOnce(jsonResponse(mockUser))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      rateLimit: { onLowQuota: "throw", lowQuotaThreshold: 0 },
+    })
+
+    await client.getFacilities()
+    const status = await client.getQuotaStatus({ refresh: true })
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(status).toMatchObject({ remaining: 5000, isLow: false })
+  })
+})
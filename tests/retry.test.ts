@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { OpenElectricityClient, OpenElectricityError } from "../src/client"
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryOptions,
+} from "../src/retry"
+
+// Mock fetch
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch as unknown as typeof fetch
+
+const mockUser = {
+  version: "4.0.1",
+  created_at: "2024-01-01T00:00:00",
+  success: true,
+  error: null,
+  data: {
+    id: "user_1",
+    full_name: "Test User",
+    email: "test@example.com",
+    owner_id: "owner_1",
+    plan: "BASIC",
+    meta: { remaining: 100 },
+  },
+}
+
+function mockFetchResponse(data: unknown): Promise<Response> {
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(data),
+  } as Response)
+}
+
+function mockErrorResponse(
+  status: number,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return Promise.resolve({
+    ok: false,
+    status,
+    statusText: "Error",
+    headers: new Headers(headers),
+    json: () => Promise.resolve({ detail: "Temporary failure" }),
+  } as Response)
+}
+
+describe("retry policy", () => {
+  it("resolves defaults and disables retries with false", () => {
+    expect(resolveRetryOptions()).toEqual(DEFAULT_RETRY_OPTIONS)
+    expect(resolveRetryOptions({ maxAttempts: 5 }).maxAttempts).toBe(5)
+    expect(resolveRetryOptions(false).maxAttempts).toBe(1)
+  })
+
+  it("parses Retry-After seconds and HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z")
+    expect(parseRetryAfter("3", now)).toBe(3000)
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:10 GMT", now)).toBe(10000)
+    expect(parseRetryAfter("not a date", now)).toBeUndefined()
+    expect(parseRetryAfter(null, now)).toBeUndefined()
+  })
+
+  it("backs off exponentially without jitter", () => {
+    const options = { ...DEFAULT_RETRY_OPTIONS, jitter: false }
+    expect(getRetryDelay(1, options)).toBe(500)
+    expect(getRetryDelay(2, options)).toBe(1000)
+    expect(getRetryDelay(3, options)).toBe(2000)
+    expect(getRetryDelay(20, options)).toBe(options.maxDelayMs)
+  })
+
+  it("keeps jittered delays within the backoff window", () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(3, DEFAULT_RETRY_OPTIONS)
+      expect(delay).toBeGreaterThanOrEqual(0)
+      expect(delay).toBeLessThanOrEqual(2000)
+    }
+  })
+
+  it("prefers Retry-After when respected", () => {
+    expect(getRetryDelay(1, DEFAULT_RETRY_OPTIONS, 4000)).toBe(4000)
+    expect(
+      getRetryDelay(
+        1,
+        { ...DEFAULT_RETRY_OPTIONS, respectRetryAfter: false, jitter: false },
+        4000,
+      ),
+    ).toBe(500)
+  })
+})
+
+describe("OpenElectricityClient retries", () => {
+  let client: OpenElectricityClient
+
+  beforeEach(() => {
+    client = new OpenElectricityClient({
+      apiKey: "test-key",
+      retry: { baseDelayMs: 0 },
+    })
+    vi.clearAllMocks()
+  })
+
+  it("retries retryable status codes until success", async () => {
+    mockFetch
+      .mockImplementationOnce(() => mockErrorResponse(503))
+      .mockImplementationOnce(() => mockErrorResponse(429, { "Retry-After": "0" }))
+      .mockImplementationOnce(() => mockFetchResponse(mockUser))
+
+    const result = await client.getCurrentUser()
+    expect(result.data.id).toBe("user_1")
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it("retries network errors", async () => {
+    mockFetch
+      .mockImplementationOnce(() => Promise.reject(new TypeError("fetch failed")))
+      .mockImplementationOnce(() => mockFetchResponse(mockUser))
+
+    const result = await client.getCurrentUser()
+    expect(result.data.id).toBe("user_1")
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("gives up after maxAttempts", async () => {
+    mockFetch.mockImplementation(() => mockErrorResponse(502))
+
+    await expect(client.getCurrentUser()).rejects.toBeInstanceOf(
+      OpenElectricityError,
+    )
+    expect(mockFetch).toHaveBeenCalledTimes(DEFAULT_RETRY_OPTIONS.maxAttempts)
+    mockFetch.mockReset()
+  })
+
+  it("does not retry non-retryable status codes", async () => {
+    mockFetch.mockImplementationOnce(() => mockErrorResponse(400))
+
+    await expect(client.getCurrentUser()).rejects.toThrow("Temporary failure")
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("does not retry when disabled", async () => {
+    client = new OpenElectricityClient({ apiKey: "test-key", retry: false })
+    mockFetch.mockImplementationOnce(() => mockErrorResponse(503))
+
+    await expect(client.getCurrentUser()).rejects.toBeInstanceOf(
+      OpenElectricityError,
+    )
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
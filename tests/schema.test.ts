@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest"
+
+import {
+  OpenElectricityClient,
+  OpenElectricityError,
+  ResponseSchemaError,
+} from "../src/client"
+import { checkSchema, timeSeriesResponseSchema } from "../src/schema"
+
+const validSeries = {
+  network_code: "NEM",
+  metric: "energy",
+  unit: "MWh",
+  interval: "1d",
+  start: "2024-01-01T00:00:00+10:00",
+  end: "2024-01-02T00:00:00+10:00",
+  groupings: [],
+  network_timezone_offset: "+10:00",
+  results: [
+    {
+      name: "energy",
+      date_start: "2024-01-01T00:00:00+10:00",
+      date_end: "2024-01-02T00:00:00+10:00",
+      columns: { network_region: "NSW1", renewable: true },
+      data: [
+        ["2024-01-01T00:00:00+10:00", 100],
+        ["2024-01-02T00:00:00+10:00", null],
+      ],
+    },
+  ],
+}
+
+function apiResponse(data: unknown) {
+  return {
+    version: "4.0.1",
+    created_at: "2024-01-01T00:00:00",
+    success: true,
+    error: null,
+    data,
+  }
+}
+
+function jsonFetch(body: unknown) {
+  return vi.fn(async () => new Response(JSON.stringify(body)))
+}
+
+describe("response schemas", () => {
+  it("accepts a valid time series response", () => {
+    expect(
+      checkSchema(timeSeriesResponseSchema, apiResponse([validSeries])),
+    ).toEqual([])
+  })
+
+  it("reports every offending path", () => {
+    const { start, ...series } = validSeries
+    const issues = checkSchema(
+      timeSeriesResponseSchema,
+      apiResponse([
+        {
+          ...series,
+          results: [{ ...series.results[0], data: [["2024-01-01", "100"]] }],
+        },
+      ]),
+    )
+
+    expect(issues).toEqual([
+      { path: "data[0].start", expected: "string", received: "undefined" },
+      {
+        path: "data[0].results[0].data[0][1]",
+        expected: "number",
+        received: "string",
+      },
+    ])
+  })
+})
+
+describe("OpenElectricityClient strict mode", () => {
+  it("throws ResponseSchemaError for malformed responses", async () => {
+    const { date_start, ...result } = validSeries.results[0]
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      strict: true,
+      fetch: jsonFetch(apiResponse([{ ...validSeries, results: [result] }])),
+    })
+
+    const error = await client
+      .getNetworkData("NEM", ["energy"], { interval: "1d" })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(ResponseSchemaError)
+    expect(error).toBeInstanceOf(OpenElectricityError)
+    expect((error as ResponseSchemaError).issues.map((i) => i.path)).toEqual([
+      "data[0].results[0].date_start",
+    ])
+    expect((error as Error).message).toContain("data[0].results[0].date_start")
+  })
+
+  it("validates facilities and units", async () => {
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      strict: true,
+      fetch: jsonFetch(
+        apiResponse([
+          {
+            code: "BAYSW",
+            name: "Bayswater",
+            network_id: "NEM",
+            network_region: "NSW1",
+            description: null,
+            npi_id: null,
+            location: null,
+            units: [{ code: "BW01" }],
+          },
+        ]),
+      ),
+    })
+
+    const error = await client.getFacilities().catch((e) => e)
+    expect(error).toBeInstanceOf(ResponseSchemaError)
+    expect((error as ResponseSchemaError).issues[0].path).toBe(
+      "data[0].units[0].fueltech_id",
+    )
+  })
+
+  it("does not validate responses by default", async () => {
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch: jsonFetch({ data: [] }),
+    })
+
+    await expect(client.getFacilities()).resolves.toBeDefined()
+  })
+})
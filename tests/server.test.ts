@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+
+import {
+  NoDataFound,
+  OpenElectricityClient,
+  PermissionDeniedError,
+  ValidationError,
+} from "../src/client"
+import {
+  handleMockRequest,
+  type IMockServer,
+  startMockServer,
+} from "../src/server"
+
+function get(url: string, authorization = "Bearer test-key") {
+  return handleMockRequest({ method: "GET", url, authorization })
+}
+
+describe("mock server", () => {
+  let server: IMockServer
+  let client: OpenElectricityClient
+
+  beforeAll(async () => {
+    server = await startMockServer({ apiKey: "test-key" })
+    client = new OpenElectricityClient({
+      apiKey: "test-key",
+      baseUrl: server.url,
+      retry: false,
+    })
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  it("serves network data grouped by region and fueltech", async () => {
+    const { datatable } = await client.getNetworkData("NEM", ["energy"], {
+      interval: "1h",
+      dateStart: "2024-01-01T00:00:00",
+      dateEnd: "2024-01-02T00:00:00",
+      primaryGrouping: "network_region",
+      secondaryGrouping: ["fueltech_group"],
+      fueltech_group: ["solar", "coal"],
+    })
+
+    const rows = datatable?.getRows() ?? []
+    expect(new Set(rows.map((row) => row.fueltech_group))).toEqual(
+      new Set(["solar", "coal"]),
+    )
+    expect(rows.some((row) => row.network_region === "QLD1")).toBe(true)
+
+    const solar = rows.filter(
+      (row) => row.fueltech_group === "solar" && row.network_region === "NSW1",
+    )
+    expect(solar).toHaveLength(24)
+    // Dark at midnight, generating at noon
+    expect(solar[0].energy).toBe(0)
+    expect(solar[12].energy as number).toBeGreaterThan(0)
+  })
+
+  it("serves market data with negative midday prices", async () => {
+    const { response } = await client.getMarket("NEM", ["price", "demand"], {
+      interval: "5m",
+      dateStart: "2024-01-01T00:00:00",
+      dateEnd: "2024-01-02T00:00:00",
+      primaryGrouping: "network_region",
+      network_region: "SA1",
+    })
+
+    expect(response.data.map((series) => series.unit)).toEqual(["$/MWh", "MW"])
+    const prices = response.data[0].results[0].data
+    expect(prices).toHaveLength(288)
+    expect(prices[0][0]).toBe("2024-01-01T00:00:00+10:00")
+    expect(
+      Math.min(...prices.map(([, price]) => price as number)),
+    ).toBeLessThan(0)
+  })
+
+  it("serves facilities and their unit data", async () => {
+    const { facility, datatable } = await client.getFacility(
+      "NEM",
+      "BAYSW",
+      ["power"],
+      {
+        interval: "1d",
+        dateStart: "2024-01-01T00:00:00",
+        dateEnd: "2024-01-03T00:00:00",
+      },
+    )
+
+    expect(facility.units).toHaveLength(4)
+    expect(datatable.getRows()).toHaveLength(8)
+    expect(datatable.getRows()[0]).toMatchObject({
+      unit_fueltech: "coal_black",
+    })
+
+    const { response } = await client.getFacilities({
+      status_id: ["retired"],
+    })
+    expect(response.data.map(({ code }) => code)).toEqual(["LIDDELL"])
+  })
+
+  it("serves pollution data and the current user", async () => {
+    const { datatable } = await client.getFacilityPollution({
+      facility_code: ["BAYSW"],
+      pollutant_category: ["heavy_metal"],
+      dateStart: "2020-01-01T00:00:00",
+      dateEnd: "2023-01-01T00:00:00",
+    })
+    const rows = datatable?.getRows() ?? []
+    expect(rows).toHaveLength(3 * 9)
+    expect(rows[0]).toMatchObject({ facility_code: "BAYSW" })
+
+    expect((await client.getCurrentUser()).data.plan).toBe("PRO")
+  })
+
+  it("emits the error shapes the client parses", async () => {
+    const denied = new OpenElectricityClient({
+      apiKey: "wrong-key",
+      baseUrl: server.url,
+      retry: false,
+    })
+    await expect(denied.getCurrentUser()).rejects.toBeInstanceOf(
+      PermissionDeniedError,
+    )
+
+    await expect(
+      client.getFacility("NEM", "NOPE", ["power"], { interval: "1d" }),
+    ).rejects.toBeInstanceOf(NoDataFound)
+
+    const error = await client
+      .getMarket("NEM", ["power" as never], { interval: "1h" })
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.details.invalid_metrics).toEqual(["power"])
+  })
+
+  it("returns validation details for bad queries", () => {
+    expect(get("/v4/data/network/NEM").body).toEqual({
+      detail: [
+        {
+          type: "missing",
+          loc: ["query", "metrics"],
+          msg: "Field required",
+          input: null,
+        },
+      ],
+    })
+    expect(get("/v4/market/network/NEM?metrics=price&interval=2h").status).toBe(
+      422,
+    )
+    expect(
+      get(
+        "/v4/market/network/NEM?metrics=price&interval=5m&date_start=2024-01-01T00:00:00&date_end=2024-03-01T00:00:00",
+      ).status,
+    ).toBe(400)
+    expect(get("/v4/me", "").status).toBe(403)
+  })
+})
@@ -0,0 +1,257 @@
+import dayjs from "dayjs"
+import utc from "dayjs/plugin/utc"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { OpenElectricityClient } from "../src/client"
+import type { ISubscriptionUpdate } from "../src/subscription"
+
+dayjs.extend(utc)
+
+// Prices by interval in network time, e.g. "10:05"
+let prices: Record<string, number> = {}
+
+function priceResponse(url: string): Response {
+  const query = new URL(url).searchParams
+  const start = dayjs.utc(query.get("date_start"))
+  const end = dayjs.utc(query.get("date_end"))
+
+  const data: [string, number][] = []
+  for (let t = start; !t.isAfter(end); t = t.add(5, "minute")) {
+    const price = prices[t.format("HH:mm")] ?? 100
+    data.push([`${t.format("YYYY-MM-DDTHH:mm:ss")}+10:00`, price])
+  }
+
+  return new Response(
+    JSON.stringify({
+      version: "4.0.1",
+      created_at: "2024-01-01T00:00:00",
+      success: true,
+      error: null,
+      data: [
+        {
+          network_code: "NEM",
+          metric: "price",
+          unit: "$/MWh",
+          interval: "5m",
+          start: data[0][0],
+          end: data[data.length - 1][0],
+          groupings: [],
+          network_timezone_offset: "+10:00",
+          results: [
+            {
+              name: "price",
+              date_start: data[0][0],
+              date_end: data[data.length - 1][0],
+              columns: {},
+              data,
+            },
+          ],
+        },
+      ],
+    }),
+  )
+}
+
+function times(rows: ISubscriptionUpdate["rows"]): string[] {
+  return rows.map((row) =>
+    dayjs.utc(row.interval).add(10, "hour").format("HH:mm"),
+  )
+}
+
+describe("subscribe", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    // 10:12:30 in NEM time, so 10:05 is the last complete interval
+    vi.setSystemTime(new Date("2024-01-01T00:12:30Z"))
+    prices = {}
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("emits only new and revised completed intervals", async () => {
+    const fetch = vi.fn(async (url: string) => priceResponse(url))
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+    const updates: ISubscriptionUpdate[] = []
+
+    const subscription = client.subscribe({
+      network: "NEM",
+      metrics: ["price"],
+      onData: (update) => {
+        updates.push(update)
+      },
+    })
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(updates).toHaveLength(1)
+    expect(times(updates[0].rows)).toEqual(["09:50", "09:55", "10:00", "10:05"])
+    expect(fetch.mock.calls[0][0]).toContain("/market/network/NEM")
+
+    // Nothing new within the same interval
+    await vi.advanceTimersByTimeAsync(60000)
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(updates).toHaveLength(1)
+
+    // An earlier interval is revised
+    prices["10:00"] = 250
+    await vi.advanceTimersByTimeAsync(60000)
+    expect(updates).toHaveLength(2)
+    expect(updates[1].rows).toEqual([])
+    expect(times(updates[1].revised)).toEqual(["10:00"])
+    expect(updates[1].revised[0].price).toBe(250)
+
+    // A new interval completes at 10:15
+    await vi.advanceTimersByTimeAsync(60000)
+    expect(updates).toHaveLength(3)
+    expect(times(updates[2].rows)).toEqual(["10:10"])
+    expect(updates[2].revised).toEqual([])
+
+    subscription.unsubscribe()
+  })
+
+  it("backs off after failed polls", async () => {
+    const fetch = vi
+      .fn(async (url: string) => priceResponse(url))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      retry: false,
+    })
+    const onError = vi.fn()
+    const onData = vi.fn()
+
+    const subscription = client.subscribe({
+      network: "NEM",
+      metrics: ["price"],
+      onData,
+      onError,
+    })
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(onError).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(onError).toHaveBeenCalledTimes(2)
+
+    // The second failure waits twice as long
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(fetch).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(onData).toHaveBeenCalledTimes(1)
+
+    subscription.unsubscribe()
+  })
+
+  it("sends rows again when onData fails", async () => {
+    const fetch = vi.fn(async (url: string) => priceResponse(url))
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+    const onData = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("database unavailable"))
+      .mockResolvedValue(undefined)
+    const onError = vi.fn()
+
+    const subscription = client.subscribe({
+      network: "NEM",
+      metrics: ["price"],
+      onData,
+      onError,
+    })
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(onError).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(onData).toHaveBeenCalledTimes(2)
+    expect(onData.mock.calls[1][0]).toEqual(onData.mock.calls[0][0])
+
+    subscription.unsubscribe()
+  })
+
+  it("limits how far it catches up after an outage", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const fetch = vi.fn(async (url: string) => priceResponse(url))
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+    const onError = vi.fn()
+
+    const subscription = client.subscribe({
+      network: "NEM",
+      metrics: ["price"],
+      onData: () => {},
+      onError,
+    })
+    await vi.advanceTimersByTimeAsync(0)
+
+    vi.setSystemTime(new Date("2024-01-11T00:12:30Z"))
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(onError).not.toHaveBeenCalled()
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(fetch.mock.calls[1][0]).toContain(
+      "date_start=2024-01-04T10%3A10%3A00",
+    )
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Subscription fell behind"),
+      expect.anything(),
+    )
+
+    subscription.unsubscribe()
+    warn.mockRestore()
+  })
+
+  it("keeps polling when the error handler throws", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const fetch = vi
+      .fn(async (url: string) => priceResponse(url))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      retry: false,
+    })
+    const onData = vi.fn()
+
+    const subscription = client.subscribe({
+      network: "NEM",
+      metrics: ["price"],
+      onData,
+      onError: () => {
+        throw new Error("handler failed")
+      },
+    })
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(onData).toHaveBeenCalledTimes(1)
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Subscription error handler failed"),
+      expect.anything(),
+    )
+
+    subscription.unsubscribe()
+    warn.mockRestore()
+  })
+
+  it("stops when unsubscribed or aborted", async () => {
+    const fetch = vi.fn(async (url: string) => priceResponse(url))
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+    const controller = new AbortController()
+
+    const subscription = client.subscribe({
+      network: "NEM",
+      metrics: ["power"],
+      onData: () => {},
+      signal: controller.signal,
+    })
+    await vi.advanceTimersByTimeAsync(0)
+    expect(fetch.mock.calls[0][0]).toContain("/data/network/NEM")
+
+    controller.abort()
+    expect(subscription.closed).toBe(true)
+    await vi.advanceTimersByTimeAsync(600000)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
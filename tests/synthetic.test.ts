@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest"
+
+import { ValidationError } from "../src/client"
+import { createDataTable } from "../src/datatable"
+import {
+  generateFacilityTimeSeries,
+  generateNetworkTimeSeries,
+} from "../src/synthetic"
+
+const day = { dateStart: "2024-01-01T00:00:00", dateEnd: "2024-01-02T00:00:00" }
+
+describe("synthetic time series", () => {
+  it("is reproducible for a seed", () => {
+    const options = { ...day, interval: "1h" as const, seed: 7 }
+    const first = generateNetworkTimeSeries("NEM", ["power", "price"], options)
+
+    expect(
+      generateNetworkTimeSeries("NEM", ["power", "price"], options),
+    ).toEqual(first)
+    expect(
+      generateNetworkTimeSeries("NEM", ["power", "price"], {
+        ...options,
+        seed: 8,
+      }),
+    ).not.toEqual(first)
+  })
+
+  it("agrees across overlapping ranges", () => {
+    const full = generateNetworkTimeSeries("NEM", ["price"], day)
+    const half = generateNetworkTimeSeries("NEM", ["price"], {
+      dateStart: "2024-01-01T12:00:00",
+      dateEnd: "2024-01-02T00:00:00",
+    })
+
+    expect(half[0].results[0].data).toEqual(full[0].results[0].data.slice(144))
+  })
+
+  it("feeds createDataTable with groupings as columns", () => {
+    const table = createDataTable(
+      generateNetworkTimeSeries("NEM", ["energy", "emissions"], {
+        ...day,
+        interval: "1h",
+        primaryGrouping: "network_region",
+        secondaryGrouping: ["fueltech_group"],
+      }),
+    )
+
+    const rows = table.getRows()
+    expect(table.getGroupings()).toEqual(["network_region", "fueltech_group"])
+    expect(rows[0]).toHaveProperty("energy")
+    expect(rows[0]).toHaveProperty("emissions")
+
+    const solar = rows.filter(
+      (row) => row.fueltech_group === "solar" && row.network_region === "QLD1",
+    )
+    expect(solar).toHaveLength(24)
+    expect(solar[2].energy).toBe(0)
+    expect(solar[12].energy as number).toBeGreaterThan(100)
+
+    const coal = rows.filter(
+      (row) => row.fueltech_group === "coal" && row.network_region === "VIC1",
+    )
+    expect(coal.every((row) => (row.emissions as number) > 0)).toBe(true)
+  })
+
+  it("has price spikes and negative prices", () => {
+    const [price] = generateNetworkTimeSeries("NEM", ["price"], {
+      dateStart: "2024-01-01T00:00:00",
+      dateEnd: "2024-01-08T00:00:00",
+      network_region: "SA1",
+      primaryGrouping: "network_region",
+    })
+    const values = price.results[0].data.map(([, value]) => value as number)
+
+    expect(price.results[0].columns).toEqual({ network_region: "SA1" })
+    expect(values).toHaveLength(7 * 288)
+    expect(Math.min(...values)).toBeLessThan(0)
+    expect(Math.max(...values)).toBeGreaterThan(300)
+  })
+
+  it("charges batteries at midday and discharges in the evening", () => {
+    const table = createDataTable(
+      generateFacilityTimeSeries("NEM", ["power"], {
+        ...day,
+        interval: "1h",
+        facilityCodes: ["HPR"],
+      }),
+    )
+    const at = (unit: string, hour: number) =>
+      table.getRows().filter((row) => row.unit_code === unit)[hour]
+        .power as number
+
+    expect(at("HPRL1", 12)).toBeGreaterThan(at("HPRL1", 19))
+    expect(at("HPRG1", 19)).toBeGreaterThan(at("HPRG1", 12))
+  })
+
+  it("supports calendar intervals", () => {
+    const [energy] = generateNetworkTimeSeries("WEM", ["energy"], {
+      interval: "fy",
+      dateStart: "2021-07-01T00:00:00",
+      dateEnd: "2024-07-01T00:00:00",
+    })
+
+    expect(energy.results[0].data.map(([time]) => time)).toEqual([
+      "2021-07-01T00:00:00+08:00",
+      "2022-07-01T00:00:00+08:00",
+      "2023-07-01T00:00:00+08:00",
+    ])
+
+    const [season] = generateNetworkTimeSeries("NEM", ["demand"], {
+      interval: "season",
+      dateStart: "2024-01-15T00:00:00",
+      dateEnd: "2024-06-01T00:00:00",
+    })
+    expect(season.results[0].date_start).toBe("2023-12-01T00:00:00+10:00")
+  })
+
+  it("rejects metrics it can't generate", () => {
+    expect(() => generateNetworkTimeSeries("NEM", ["pollution"], day)).toThrow(
+      ValidationError,
+    )
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { OpenElectricityClient, ValidationError } from "../src/client"
+import type { IMarketTimeSeriesParams } from "../src/types"
+import {
+  validateMarketParams,
+  validateNetworkDataParams,
+  validatePollutionParams,
+} from "../src/validation"
+
+function catchError(fn: () => void): unknown {
+  try {
+    fn()
+  } catch (error) {
+    return error
+  }
+  throw new Error("Expected function to throw")
+}
+
+describe("parameter validation", () => {
+  it("accepts valid parameters", () => {
+    expect(() =>
+      validateNetworkDataParams("NEM", ["power"], {
+        interval: "5m",
+        dateStart: "2024-01-01T00:00:00",
+        dateEnd: "2024-01-02T00:00:00",
+        network_region: "NSW1",
+      }),
+    ).not.toThrow()
+  })
+
+  it("rejects unknown regions for a network", () => {
+    const error = catchError(() =>
+      validateNetworkDataParams("WEM", ["power"], { network_region: "NSW1" }),
+    )
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).hint).toBe("Use one of WEM")
+  })
+
+  it("rejects dateStart after dateEnd", () => {
+    expect(() =>
+      validateNetworkDataParams("NEM", ["energy"], {
+        dateStart: "2024-02-01T00:00:00",
+        dateEnd: "2024-01-01T00:00:00",
+      }),
+    ).toThrow(ValidationError)
+    expect(() =>
+      validatePollutionParams({
+        dateStart: "2024-02-01",
+        dateEnd: "2024-01-01",
+      }),
+    ).toThrow(ValidationError)
+  })
+
+  it("rejects invalid dates", () => {
+    expect(() =>
+      validateNetworkDataParams("NEM", ["energy"], { dateStart: "yesterday" }),
+    ).toThrow("Invalid dateStart")
+  })
+
+  it("rejects long ranges unless chunked when range limits are on", () => {
+    const params = {
+      interval: "5m" as const,
+      dateStart: "2022-01-01T00:00:00",
+      dateEnd: "2024-01-01T00:00:00",
+    }
+    const options = { rangeLimits: true }
+    const error = catchError(() =>
+      validateNetworkDataParams("NEM", ["power"], params, options),
+    )
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).hint).toContain("chunk: true")
+
+    expect(() =>
+      validateNetworkDataParams(
+        "NEM",
+        ["power"],
+        { ...params, chunk: true },
+        options,
+      ),
+    ).not.toThrow()
+    expect(() =>
+      validateNetworkDataParams("NEM", ["power"], params),
+    ).not.toThrow()
+  })
+
+  it("applies the 5m range limit when no interval is given", () => {
+    expect(() =>
+      validateMarketParams(
+        "NEM",
+        ["price"],
+        { dateStart: "2023-01-01T00:00:00", dateEnd: "2024-01-01T00:00:00" },
+        { rangeLimits: true },
+      ),
+    ).toThrow("Date range exceeds 7 days for the 5m interval")
+  })
+
+  it("rejects the pollution metric on network data", () => {
+    expect(() => validateNetworkDataParams("NEM", ["pollution"], {})).toThrow(
+      "Use getFacilityPollution",
+    )
+  })
+
+  it("rejects secondaryGrouping on market data", () => {
+    const params = {
+      secondaryGrouping: ["fueltech"],
+    } as IMarketTimeSeriesParams
+    expect(() => validateMarketParams("NEM", ["price"], params)).toThrow(
+      ValidationError,
+    )
+  })
+
+  it("rejects unknown intervals and empty metrics", () => {
+    expect(() =>
+      validateMarketParams("NEM", ["price"], {
+        interval: "2h" as IMarketTimeSeriesParams["interval"],
+      }),
+    ).toThrow("Unknown interval")
+    expect(() => validateMarketParams("NEM", [], {})).toThrow(
+      "No metrics requested",
+    )
+  })
+})
+
+describe("OpenElectricityClient validation", () => {
+  it("throws before making a request", async () => {
+    const fetch = vi.fn()
+    const client = new OpenElectricityClient({ apiKey: "test-key", fetch })
+
+    await expect(
+      client.getMarket("NEM", ["price"], { network_region: "WEM" }),
+    ).rejects.toBeInstanceOf(ValidationError)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it("enforces range limits when configured", async () => {
+    const fetch = vi.fn()
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      validate: { rangeLimits: true },
+    })
+
+    await expect(
+      client.getNetworkData("NEM", ["energy"], {
+        dateStart: "2023-01-01T00:00:00",
+        dateEnd: "2024-01-01T00:00:00",
+      }),
+    ).rejects.toThrow("Date range exceeds 7 days for the 5m interval")
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it("can be disabled", async () => {
+    const fetch = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            version: "4.0.1",
+            created_at: "2024-01-01T00:00:00",
+            success: true,
+            error: null,
+            data: [],
+          }),
+        ),
+    )
+    const client = new OpenElectricityClient({
+      apiKey: "test-key",
+      fetch,
+      validate: false,
+    })
+
+    await client.getFacilityPollution({
+      dateStart: "2024-02-01",
+      dateEnd: "2024-01-01",
+    })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
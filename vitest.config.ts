@@ -5,6 +5,10 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     include: ['tests/**/*.test.ts'],
+    typecheck: {
+      enabled: true,
+      include: ['tests/**/*.test-d.ts'],
+    },
     coverage: {
       reporter: ['text', 'json', 'html'],
       include: ['src/**/*.ts'],